@@ -4,23 +4,28 @@ const path = require("path");
 const entry = require.resolve("web-ifc"); // e.g. .../node_modules/web-ifc/web-ifc-api.js
 const base = path.dirname(entry);
 
-const candidates = [
-  path.join(base, "web-ifc.wasm"),
-  path.join(base, "dist", "web-ifc.wasm"),
-  path.join(base, "..", "web-ifc.wasm"),
-  path.join(base, "..", "dist", "web-ifc.wasm"),
-  path.join(base, "..", "lib", "web-ifc.wasm")
-];
-
-const src = candidates.find(p => fs.existsSync(p));
-if (!src) {
-  throw new Error(
-    `web-ifc.wasm not found. Tried:\n - ${candidates.join("\n - ")}\nResolved entry: ${entry}`
-  );
-}
+// web-ifc-node.wasm lädt der Node-Build (n8n), web-ifc.wasm der Browser-Build
+const files = ["web-ifc-node.wasm", "web-ifc.wasm"];
 
 const destDir = path.join(__dirname, "..", "dist", "wasm");
 fs.mkdirSync(destDir, { recursive: true });
-fs.copyFileSync(src, path.join(destDir, "web-ifc.wasm"));
 
-console.log("✔ copied", src, "→", path.join(destDir, "web-ifc.wasm"));
+for (const file of files) {
+  const candidates = [
+    path.join(base, file),
+    path.join(base, "dist", file),
+    path.join(base, "..", file),
+    path.join(base, "..", "dist", file),
+    path.join(base, "..", "lib", file)
+  ];
+
+  const src = candidates.find(p => fs.existsSync(p));
+  if (!src) {
+    throw new Error(
+      `${file} not found. Tried:\n - ${candidates.join("\n - ")}\nResolved entry: ${entry}`
+    );
+  }
+
+  fs.copyFileSync(src, path.join(destDir, file));
+  console.log("✔ copied", src, "→", path.join(destDir, file));
+}
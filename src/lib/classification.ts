@@ -0,0 +1,108 @@
+// src/lib/classification.ts
+
+import {
+  IFCRELASSOCIATESCLASSIFICATION,
+  IFCCLASSIFICATION,
+  IFCCLASSIFICATIONREFERENCE,
+} from 'web-ifc';
+import { forEachIdVector, toPrimitive } from './extract';
+
+/* ------------------------------ Klassifikationen ---------------------------- */
+/*   IfcRelAssociatesClassification → IfcClassificationReference              */
+/*   (Identification bzw. IFC2x3 ItemReference, Name) → IfcClassification     */
+/*   (Name, Edition). Je System im Modell ein Spaltensatz                     */
+/*   "Classification.<System>", ".Name", ".Edition" (Uniclass, eBKP-H …).    */
+
+export interface ClassificationRef {
+  system: string;          // IfcClassification.Name (sonst Source)
+  edition?: string;
+  identification?: string; // Code, z. B. "Pr_20_93" / "C02.01"
+  name?: string;
+}
+
+export interface ClassificationIndex {
+  systems: string[];                        // alle Systeme im Modell, sortiert
+  byObject: Map<number, ClassificationRef[]>;
+}
+
+export const CLASSIFICATION_COLUMN = 'Classification';
+const UNKNOWN_SYSTEM = '(unknown)';
+
+function text(v: any): string | undefined {
+  const p = toPrimitive(v);
+  return p == null || p === '' ? undefined : String(p);
+}
+
+// Referenz → Klassifikation; IFC4 erlaubt Ketten von Referenzen (Gruppe → Untergruppe)
+function resolveReference(api: any, modelID: number, id: number): ClassificationRef | undefined {
+  const line = api.GetLine(modelID, id);
+  if (!line) return;
+
+  if (line.type === IFCCLASSIFICATION) {
+    // direkt am System (ohne Code)
+    return { system: text(line.Name) ?? text(line.Source) ?? UNKNOWN_SYSTEM, edition: text(line.Edition) };
+  }
+  if (line.type !== IFCCLASSIFICATIONREFERENCE) return;
+
+  const ref: ClassificationRef = {
+    system: UNKNOWN_SYSTEM,
+    identification: text(line.Identification) ?? text(line.ItemReference),
+    name: text(line.Name),
+  };
+  let src = line.ReferencedSource?.value;
+  for (let hops = 0; src && hops < 16; hops++) {
+    const s = api.GetLine(modelID, src);
+    if (s?.type === IFCCLASSIFICATION) {
+      ref.system = text(s.Name) ?? text(s.Source) ?? UNKNOWN_SYSTEM;
+      ref.edition = text(s.Edition);
+      break;
+    }
+    src = s?.ReferencedSource?.value;
+  }
+  return ref;
+}
+
+export function buildClassificationIndex(api: any, modelID: number): ClassificationIndex {
+  const byObject = new Map<number, ClassificationRef[]>();
+  const systems = new Set<string>();
+  const refCache = new Map<number, ClassificationRef | undefined>();
+
+  forEachIdVector(api.GetLineIDsWithType(modelID, IFCRELASSOCIATESCLASSIFICATION), (relId) => {
+    const rel = api.GetLine(modelID, relId);
+    const refId = rel?.RelatingClassification?.value;
+    if (!refId) return;
+    if (!refCache.has(refId)) refCache.set(refId, resolveReference(api, modelID, refId));
+    const ref = refCache.get(refId);
+    if (!ref) return;
+    systems.add(ref.system);
+    for (const o of (rel?.RelatedObjects ?? [])) {
+      if (!o?.value) continue;
+      if (!byObject.has(o.value)) byObject.set(o.value, []);
+      byObject.get(o.value)!.push(ref);
+    }
+  });
+
+  return { systems: [...systems].sort(), byObject };
+}
+
+export function classificationColumnName(system: string, field?: 'Name' | 'Edition'): string {
+  const base = `${CLASSIFICATION_COLUMN}.${system}`;
+  return field ? `${base}.${field}` : base;
+}
+
+/** Vollständiger Spaltensatz je System (null, wenn das Objekt dort nicht klassifiziert ist). */
+export function classificationColumns(index: ClassificationIndex, objectId: number): Record<string, any> {
+  const refs = index.byObject.get(objectId) ?? [];
+  const out: Record<string, any> = {};
+  for (const system of index.systems) {
+    const own = refs.filter(r => r.system === system);
+    const join = (vals: Array<string | undefined>) => {
+      const v = [...new Set(vals.filter((x): x is string => !!x))];
+      return v.length ? v.join('; ') : null;
+    };
+    out[classificationColumnName(system)] = join(own.map(r => r.identification));
+    out[classificationColumnName(system, 'Name')] = join(own.map(r => r.name));
+    out[classificationColumnName(system, 'Edition')] = join(own.map(r => r.edition));
+  }
+  return out;
+}
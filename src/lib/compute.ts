@@ -1,51 +1,106 @@
 // src/lib/compute.ts
 
 import {
-  IfcAPI,
   // Entitäten/Beziehungen
   IFCSPACE,
-  IFCRELDEFINESBYPROPERTIES,
-  IFCELEMENTQUANTITY,
-  IFCPROPERTYSET,
-  IFCRELAGGREGATES,
-  IFCBUILDINGSTOREY,
-  IFCPROJECT,
+  IFCRELSPACEBOUNDARY,
+  IFCRELSPACEBOUNDARY1STLEVEL,
+  IFCRELSPACEBOUNDARY2NDLEVEL,
+  IFCDOOR,
+  IFCDOORSTANDARDCASE,
+  IFCWINDOW,
+  IFCWINDOWSTANDARDCASE,
+  IFCOPENINGELEMENT,
+  IFCCLOSEDSHELL,
+  IFCFACEOUTERBOUND,
   // optionale Typkonstanten (nicht zwingend vorhanden je nach Web-IFC-Version)
   // Wir prüfen primär strukturell, nicht nur über .type-IDs.
 } from 'web-ifc';
+import * as WEBIFC from 'web-ifc';
 
-// ⚠️ Wir rufen den Mesh-Pfad NICHT mehr auf, um GetMesh()-Errors zu vermeiden.
-// import { getSpaceAreaVolume } from './mesh-math';
+// Mesh-Pfad nur auf Wunsch (geometryMode) und pro Space gekapselt –
+// ein GetFlatMesh()-Fehler kostet dann nur diesen einen Space.
+import { getSpaceAreaVolume } from './mesh-math';
+import { areaOfClosedCurve, areaOfProfile, curveLength, profileLoops } from './profile-math';
+import {
+  type Tri,
+  HORIZONTAL_COS,
+  analyzeSolid,
+  clipByPlane,
+  loftTriangles,
+  loopsArea,
+  loopsPerimeter,
+  midLoops,
+  pointInPolygon,
+  prismTriangles,
+  sameTopology,
+} from './solid-math';
+import {
+  type OutputUnits,
+  type ProjectUnits,
+  type QuantityKind,
+  SI_UNITS,
+  withUnitSuffix,
+} from './units';
+import { type ElementGeometry, elementClassFor } from './element-quantities';
+import {
+  type Din277Rule,
+  DIN277_AREA_COLUMN,
+  DIN277_COLUMN,
+  classifyDin277,
+  compileDin277Rules,
+} from './din277';
+import { locationColumns, resolveLocation } from './spatial';
+import { type OpenModelSettings } from './ifc-api';
+import { zoneColumns } from './zones';
+import { classificationColumns } from './classification';
+import { MATERIAL_COLUMNS, materialColumns, materialPartRows } from './materials';
+import { type PhysicalQuantityKind, valueFromSI } from './extract';
+import { IfcModelReader, forEachIdVector, ifcClassName, toPrimitive } from './reader';
+import {
+  type Mat4,
+  axis2PlacementMatrix,
+  cartesianOperatorMatrix,
+  multiply,
+  objectPlacementMatrix,
+  operatorScale,
+  readDirection,
+  transformDirection,
+  transformPoint,
+} from './placement';
+
+export type GeometryMode = 'representation' | 'mesh' | 'representationThenMesh';
+export type GeometrySource = 'Representation' | 'Mesh' | 'None';
 
 export interface QtoOptions {
+  entityType?: string;       // IFC-Klasse, z. B. "IfcSpace" (Default), "IfcWall", "IfcSlab" – inkl. Subtypen
   allParams?: boolean;
-  useGeometry?: boolean;     // bedeuted hier: Repräsentation (Extrusion/BRep) nutzen
+  useGeometry?: boolean;     // Geometrie als Fallback für Area/Volume nutzen
   forceGeometry?: boolean;   // Geometriewerte dürfen Pset/Qto-Werte überschreiben
+  geometryMode?: GeometryMode; // Representation (Extrusion/BRep), Mesh (web-ifc) oder beides
+  areaRepresentations?: string | string[];   // Reihenfolge für Area, z. B. "FootPrint, Body, Box"
+  volumeRepresentations?: string | string[]; // Reihenfolge für Volume/Höhen, z. B. "Body, Box"
+  surfaces?: boolean;        // Perimeter, Wand-/Deckenflächen (Ausbau), Fallback Qto_SpaceBaseQuantities
+  units?: OutputUnits;       // Ausgabeeinheiten, z. B. { length: 'mm', area: 'm2' } – intern SI
+  unitSuffix?: boolean;      // "Area [m²]" statt "Area"
+  din277?: Din277Rule[];     // DIN-277-Zuordnung → Spalten DIN277 / DIN277Area (nur IfcSpace)
+  boundaries?: boolean;      // IfcRelSpaceBoundary: Summenspalten je Raum + Long-Format (QtoReport.boundaries)
+  zones?: boolean;           // IfcZone-Mitgliedschaft als Spalten "Zone.<ObjectType>"
+  zoneSummary?: boolean;     // Area/Volume je Zone (QtoReport.zones)
+  classifications?: boolean; // IfcClassificationReference je System als Spalten "Classification.<System>"
+  materials?: boolean;       // IfcRelAssociatesMaterial: Summenspalten + Long-Format je Schicht (QtoReport.materials)
+  typeProperties?: boolean;  // Psets/Qtos des IfcTypeObject erben (Exemplarwerte haben Vorrang)
+  typeColumns?: boolean;     // Spalten TypeName / TypeGlobalId
+  markTypeValues?: boolean;  // Spalte TypeValues: Keys, deren Wert vom Typ stammt
+  quantityKinds?: boolean;   // Mengenart je Spalte (length/area/…/count/weight/time) als QtoReport.quantityKinds
   extraParams?: string | string[];   // <- flexibler: String ODER Array
   renameMap?: Record<string, string>;
   round?: number;
+  model?: OpenModelSettings; // OpenModel-Settings (COORDINATE_TO_ORIGIN, CIRCLE_SEGMENTS …)
 }
 
 /* ------------------------------ Utility/Helper ----------------------------- */
 
-function forEachIdVector(vec: any, cb: (id: number) => void) {
-  const size =
-    typeof vec?.size === 'function' ? vec.size()
-    : Array.isArray(vec) ? vec.length
-    : 0;
-  for (let i = 0; i < size; i++) {
-    const id = typeof vec?.get === 'function' ? vec.get(i) : vec[i];
-    if (id != null) cb(id as number);
-  }
-}
-
-function toPrimitive(val: any): any {
-  let v = val;
-  while (v && typeof v === 'object' && 'value' in v && Object.keys(v).length === 1) v = v.value;
-  if (v && typeof v === 'object' && 'value' in v && typeof v.value !== 'object') v = v.value;
-  return v;
-}
-
 function roundIf(v: any, digits?: number) {
   if (v == null || !isFinite(Number(v)) || digits == null) return v;
   const f = Math.pow(10, digits);
@@ -67,8 +122,19 @@ function applyRename(row: Record<string, any>, rename?: Record<string, string>)
   }
 }
 
+// Für Warnungen: IFCSPACE "R 1.01" (2O2Fr$t4X7Zf8NOew3FLOH)
+function describeEntity(line: any, typeName: string): string {
+  const name = toPrimitive(line?.Name);
+  const gid = toPrimitive(line?.GlobalId);
+  return [ifcClassName(line?.type) ?? typeName, name != null ? `"${name}"` : undefined, gid ? `(${gid})` : undefined]
+    .filter(Boolean).join(' ');
+}
+
 /** ---------------- Extra-Parameter: Normalisieren & Auflösen ---------------- **/
 
+// Space.Name / Element.Tag → Attribut direkt an der Entität
+const DIRECT_ATTRIBUTE = /^(space|element)\./i;
+
 // "a,b;c \n d"  ->  ["a","b","c","d"]
 function splitExtraParams(raw: string | string[] | undefined): string[] {
   if (!raw) return [];
@@ -88,8 +154,8 @@ function resolveExtraKeys(tokens: string[], availableKeys: string[]): string[] {
     const t = raw.trim();
     if (!t) continue;
 
-    // Space.* lassen wir hier durch – wird separat gelesen
-    if (t.toLowerCase().startsWith('space.')) continue;
+    // Space.* / Element.* lassen wir hier durch – wird separat gelesen
+    if (DIRECT_ATTRIBUTE.test(t)) continue;
 
     if (t.includes('.')) {
       // Voller Key angegeben
@@ -120,119 +186,11 @@ function resolveExtraKeys(tokens: string[], availableKeys: string[]): string[] {
   return unique;
 }
 
-/* --------------------------- Projekt/Storey Lookup -------------------------- */
-
-function buildAggregatesIndex(api: any, modelID: number) {
-  const childToParent = new Map<number, number>();
-  const vec = api.GetLineIDsWithType(modelID, IFCRELAGGREGATES);
-  forEachIdVector(vec, (relId) => {
-    const rel = api.GetLine(modelID, relId);
-    const parent = rel?.RelatingObject?.value;
-    const children = rel?.RelatedObjects ?? [];
-    if (!parent || !Array.isArray(children)) return;
-    for (const c of children) if (c?.value) childToParent.set(c.value, parent);
-  });
-  return childToParent;
-}
-
-function getNameMapForTypes(api: any, modelID: number, typeConst: number) {
-  const m = new Map<number, string>();
-  const vec = api.GetLineIDsWithType(modelID, typeConst);
-  forEachIdVector(vec, (id) => {
-    const line = api.GetLine(modelID, id);
-    const nm = toPrimitive(line?.Name);
-    if (nm != null) m.set(id, nm);
-  });
-  return m;
-}
-
-function resolveStoreyAndProject(
-  childToParent: Map<number, number>,
-  storeyNames: Map<number, string>,
-  projectNames: Map<number, string>,
-  startId: number,
-) {
-  let cur: number | undefined = startId;
-  let storey: string | undefined;
-  let project: string | undefined;
-  let hops = 0;
-  while (cur != null && hops++ < 16) {
-    const parent = childToParent.get(cur);
-    if (parent == null) break;
-    if (!storey && storeyNames.has(parent)) storey = storeyNames.get(parent);
-    if (!project && projectNames.has(parent)) project = projectNames.get(parent);
-    cur = parent;
-  }
-  return { storey, project };
-}
-
-/* ---------------------- All-Parameters (Pset/Quantities) -------------------- */
-
-function extractPsetProps(api: any, modelID: number, psetLine: any) {
-  const out: Record<string, any> = {};
-  const pName = toPrimitive(psetLine?.Name) ?? 'Pset';
-  const props = psetLine?.HasProperties ?? [];
-  for (const p of props) {
-    const pid = p?.value; if (!pid) continue;
-    const pl = api.GetLine(modelID, pid);
-    const nm = toPrimitive(pl?.Name);
-    if (!nm) continue;
-    const val = toPrimitive(pl?.NominalValue ?? pl?.NominalValue?.value ?? pl?.value);
-    out[`${pName}.${nm}`] = val;
-  }
-  return out;
-}
-
-function extractQuantities(api: any, modelID: number, qtoLine: any) {
-  const out: Record<string, any> = {};
-  const qName = toPrimitive(qtoLine?.Name) ?? 'Qto';
-  const quants = qtoLine?.Quantities ?? [];
-  for (const q of quants) {
-    const qid = q?.value; if (!qid) continue;
-    const ql = api.GetLine(modelID, qid);
-    const nm = toPrimitive(ql?.Name);
-    const area = toPrimitive(ql?.AreaValue);
-    const vol  = toPrimitive(ql?.VolumeValue);
-    const len  = toPrimitive(ql?.LengthValue ?? ql?.PerimeterValue);
-    if (!nm) continue;
-    if (area != null) out[`${qName}.${nm}`] = area;
-    else if (vol != null) out[`${qName}.${nm}`] = vol;
-    else if (len != null) out[`${qName}.${nm}`] = len;
-  }
-  return out;
-}
-
-function buildRelDefinesIndex(api: any, modelID: number) {
-  const byRelated = new Map<number, any[]>();
-  const vec = api.GetLineIDsWithType(modelID, IFCRELDEFINESBYPROPERTIES);
-  forEachIdVector(vec, (relId) => {
-    const rel = api.GetLine(modelID, relId);
-    const related = rel?.RelatedObjects ?? [];
-    const defId = rel?.RelatingPropertyDefinition?.value;
-    if (!defId || !Array.isArray(related)) return;
-    const defLine = api.GetLine(modelID, defId);
-    for (const ro of related) {
-      const rid = ro?.value; if (!rid) continue;
-      if (!byRelated.has(rid)) byRelated.set(rid, []);
-      byRelated.get(rid)!.push(defLine);
-    }
-  });
-  return byRelated;
-}
-
 /* ------------------------ Geometrie ohne Mesh/Triangulator ------------------ */
 /*   Extrusion + BRep lesen und daraus Area/Volume/Base/Top ableiten           */
 
 /* ---- 2D/3D Geometrie-Helfer ---- */
 
-function polygonArea2D(pts: Array<{ x: number; y: number }>) {
-  let a = 0;
-  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
-    a += (pts[j].x * pts[i].y) - (pts[i].x * pts[j].y);
-  }
-  return Math.abs(a) * 0.5;
-}
-
 function coord3(api: any, modelID: number, cartId: number) {
   const cp = api.GetLine(modelID, cartId);
   const c = cp?.Coordinates ?? [];
@@ -251,33 +209,6 @@ function pointsFromPolyLoop(api: any, modelID: number, loopId: number) {
   return pts;
 }
 
-function dominantProjectionArea(pts: Array<{x:number;y:number;z:number}>) {
-  // Fläche über Projektion auf Ebene mit größter Normal-Komponente
-  if (pts.length < 3) return 0;
-  // Grobe Normalenabschätzung (Index 0 als Bezug)
-  const a = pts[0], b = pts[1], c = pts[2];
-  const ux = b.x - a.x, uy = b.y - a.y, uz = b.z - a.z;
-  const vx = c.x - a.x, vy = c.y - a.y, vz = c.z - a.z;
-  const nx = uy * vz - uz * vy;
-  const ny = uz * vx - ux * vz;
-  const nz = ux * vy - uy * vx;
-  const absNx = Math.abs(nx), absNy = Math.abs(ny), absNz = Math.abs(nz);
-
-  if (absNz >= absNx && absNz >= absNy) {
-    // fast horizontal → XY-Projektion
-    const xy = pts.map(p => ({ x: p.x, y: p.y }));
-    return polygonArea2D(xy);
-  } else if (absNy >= absNx && absNy >= absNz) {
-    // Projektion auf XZ (wenn Normal am stärksten in Y)
-    const xz = pts.map(p => ({ x: p.x, y: p.z }));
-    return polygonArea2D(xz);
-  } else {
-    // Projektion auf YZ
-    const yz = pts.map(p => ({ x: p.y, y: p.z }));
-    return polygonArea2D(yz);
-  }
-}
-
 function avgZ(pts: Array<{x:number;y:number;z:number}>) {
   if (!pts.length) return 0;
   return pts.reduce((s,p)=>s+p.z,0)/pts.length;
@@ -285,105 +216,201 @@ function avgZ(pts: Array<{x:number;y:number;z:number}>) {
 
 /* ---- ExtrudedAreaSolid ---- */
 
-function areaOfPolylineProfile(api: any, modelID: number, polyId: number) {
-  const pl = api.GetLine(modelID, polyId);
-  const pts: Array<{ x: number; y: number }> = [];
-  for (const p of (pl?.Points ?? pl?.Polygon ?? [])) {
-    if (p?.value) {
-      const cp = api.GetLine(modelID, p.value);
-      const c = cp?.Coordinates ?? [];
-      const x = +((c?.[0]?.value) ?? c?.[0] ?? 0);
-      const y = +((c?.[1]?.value) ?? c?.[1] ?? 0);
-      pts.push({ x, y });
+// Extrusion in Weltkoordinaten: objMatrix = ObjectPlacement-Kette des Space
+function computeExtrudedAreaSolid(api: any, modelID: number, item: any, objMatrix: Mat4, angleFactor?: number) {
+  const profId = item?.SweptArea?.value;
+  const depth  = +((item?.Depth?.value) ?? item?.Depth ?? 0);
+  if (!profId || depth <= 0) return;
+
+  const A = areaOfProfile(api, modelID, profId, angleFactor);
+  if (A <= 0) return;
+
+  // Profilebene liegt bei z=0 im Position-System, Extrusion entlang ExtrudedDirection
+  const world = multiply(objMatrix, axis2PlacementMatrix(api, modelID, item?.Position?.value));
+  const dir = readDirection(api, modelID, item?.ExtrudedDirection?.value) ?? { x: 0, y: 0, z: 1 };
+  const p0 = transformPoint(world, { x: 0, y: 0, z: 0 });
+  const d  = transformDirection(world, dir);
+  const z1 = p0.z + d.z * depth;
+  const normal = transformDirection(world, { x: 0, y: 0, z: 1 });
+
+  // Schräge Extrusion: Höhe senkrecht zum Profil = depth · cos(Winkel zur Profilnormalen)
+  const height = depth * Math.abs(dir.z);
+
+  // Verjüngt (IfcExtrudedAreaSolidTapered): Simpson – exakt bei linear interpolierten Eckpunkten
+  let volume = A * height;
+  let floorArea = A;
+  let ceilingArea = A;
+  let approximated = false;
+  const endId = item?.EndSweptArea?.value;
+  if (endId) {
+    const A2 = areaOfProfile(api, modelID, endId, angleFactor);
+    const l1 = profileLoops(api, modelID, profId, angleFactor);
+    const l2 = profileLoops(api, modelID, endId, angleFactor);
+    let Am: number;
+    if (l1 && l2 && sameTopology(l1.loops, l2.loops)) {
+      // Segmentierte Bögen: Mittelfläche mit dem Verhältnis exakt/Polygon korrigieren
+      const r1 = A / (Math.abs(loopsArea(l1.loops)) || A);
+      const r2 = A2 / (Math.abs(loopsArea(l2.loops)) || A2 || 1);
+      Am = Math.abs(loopsArea(midLoops(l1.loops, l2.loops))) * (r1 + r2) / 2;
+      approximated = l1.approx || l2.approx;
+    } else {
+      // unterschiedliche Topologie → ähnliche Profile angenommen
+      Am = Math.pow((Math.sqrt(A) + Math.sqrt(A2)) / 2, 2);
+      approximated = true;
     }
+    volume = height / 6 * (A + 4 * Am + A2);
+    // Fußboden = unteres Profil
+    if (d.z < 0) floorArea = A2;
+    else ceilingArea = A2;
   }
-  if (pts.length >= 3) return polygonArea2D(pts);
-  return 0;
-}
 
-function areaOfRectangleProfile(api: any, modelID: number, rectId: number) {
-  const r = api.GetLine(modelID, rectId);
-  const x = +((r?.XDim?.value) ?? r?.XDim ?? 0);
-  const y = +((r?.YDim?.value) ?? r?.YDim ?? 0);
-  return Math.max(0, x) * Math.max(0, y);
-}
+  // Profil nicht horizontal (Raum "liegend" modelliert) → Fußboden aus dem Netz
+  if (Math.abs(normal.z) < HORIZONTAL_COS) {
+    const mesh = extrusionMesh(api, modelID, item, objMatrix, angleFactor);
+    const s = mesh && analyzeSolid(mesh.tris);
+    if (!s) return;
+    return {
+      area: s.area * mesh.ratio,
+      volume,
+      base: s.base,
+      top: s.top,
+      perimeter: s.perimeter,
+      wallArea: s.wallArea,
+      ceilingArea: s.ceilingArea * mesh.ratio,
+      approximated: approximated || mesh.approx || s.approximated,
+    };
+  }
 
-function areaOfCircleProfile(api: any, modelID: number, circleId: number) {
-  const c = api.GetLine(modelID, circleId);
-  const r = +((c?.Radius?.value) ?? c?.Radius ?? 0);
-  return Math.PI * r * r;
+  // Ausbau: Umfang des unteren Profils × lichte Höhe; verjüngt/schräg sind die Wände geneigt → wahre Größe aus dem Netz
+  const bottomProf = endId && d.z < 0 ? endId : profId;
+  const perimeter = loopsPerimeter(profileLoops(api, modelID, bottomProf, angleFactor)?.loops ?? []);
+  let wallArea = perimeter * height;
+  const dl = Math.hypot(d.x, d.y, d.z);
+  if (endId || (dl > 0 && Math.abs(d.z) / dl < 1 - 1e-9)) {
+    const mesh = extrusionMesh(api, modelID, item, objMatrix, angleFactor);
+    const s = mesh && analyzeSolid(mesh.tris);
+    if (s) wallArea = s.wallArea;
+  }
+
+  return {
+    area: floorArea,
+    volume,
+    base: Math.min(p0.z, z1),
+    top: Math.max(p0.z, z1),
+    perimeter,
+    wallArea,
+    ceilingArea,
+    approximated,
+  };
 }
 
-function areaOfProfile(api: any, modelID: number, profId: number): number {
-  const p = api.GetLine(modelID, profId);
-  if (!p) return 0;
+/* ---- Geclippte Körper: IfcBooleanClippingResult mit IfcHalfSpaceSolid ---- */
+/*   Typisch für Räume unter Dachschrägen. Das Prisma wird trianguliert und  */
+/*   an jeder Halbraum-Ebene geschnitten (solid-math.ts).                    */
 
-  // strukturell prüfen statt nur p.type
-  if (p.Points || p.Polygon) return areaOfPolylineProfile(api, modelID, profId);
-  if ('XDim' in p && 'YDim' in p) return areaOfRectangleProfile(api, modelID, profId);
-  if ('Radius' in p) return areaOfCircleProfile(api, modelID, profId);
+// ratio korrigiert Volumen/Fläche segmentierter Bögen auf die exakte Profilfläche
+type SolidMesh = { tris: Tri[]; ratio: number; approx: boolean };
 
-  // ArbitraryClosedProfile / CompositeProfile heuristisch zusammensetzen
-  if (p.OuterCurve || p.InnerCurves) {
-    let A = 0;
-    const outer = p.OuterCurve?.value;
-    if (outer) {
-      const oc = api.GetLine(modelID, outer);
-      if (oc?.Points || oc?.Polygon) A += areaOfPolylineProfile(api, modelID, outer);
-    }
-    const inners = p.InnerCurves ?? [];
-    for (const ic of inners) {
-      const id = ic?.value;
-      if (!id) continue;
-      const oc = api.GetLine(modelID, id);
-      if (oc?.Points || oc?.Polygon) A -= areaOfPolylineProfile(api, modelID, id);
-    }
-    return A;
-  }
+function extrusionMesh(
+  api: any,
+  modelID: number,
+  item: any,
+  objMatrix: Mat4,
+  angleFactor?: number,
+): SolidMesh | undefined {
+  const profId = item?.SweptArea?.value;
+  const depth  = +((item?.Depth?.value) ?? item?.Depth ?? 0);
+  if (!profId || depth <= 0) return;
 
-  if (Array.isArray(p.Profiles)) {
-    const areas: number[] = [];
-    for (const sp of p.Profiles) {
-      const sid = sp?.value; if (!sid) continue;
-      areas.push(areaOfProfile(api, modelID, sid));
-    }
-    if (!areas.length) return 0;
-    areas.sort((a, b) => b - a);
-    return Math.max(0, areas[0] - areas.slice(1).reduce((s,v)=>s+v,0));
+  const start = profileLoops(api, modelID, profId, angleFactor);
+  if (!start) return;
+  const world = multiply(objMatrix, axis2PlacementMatrix(api, modelID, item?.Position?.value));
+  const dir = readDirection(api, modelID, item?.ExtrudedDirection?.value) ?? { x: 0, y: 0, z: 1 };
+
+  const endId = item?.EndSweptArea?.value;
+  if (endId) {
+    const end = profileLoops(api, modelID, endId, angleFactor);
+    const loft = end && loftTriangles(start.loops, end.loops, world, dir, depth);
+    if (!loft) return;
+    return { tris: loft.tris, ratio: 1, approx: start.approx || end.approx || !loft.planar };
   }
 
-  return 0;
+  const Ap = Math.abs(loopsArea(start.loops));
+  const ratio = start.approx && Ap > 0 ? areaOfProfile(api, modelID, profId, angleFactor) / Ap : 1;
+  return { tris: prismTriangles(start.loops, world, dir, depth), ratio, approx: start.approx };
 }
 
-function getAxisPlacementZ(api: any, modelID: number, place: any): number | undefined {
-  const locId = place?.Location?.value;
-  if (!locId) return undefined;
-  const cp = api.GetLine(modelID, locId);
-  const c = cp?.Coordinates;
-  const z = +((c?.[2]?.value) ?? c?.[2] ?? 0);
-  return isFinite(z) ? z : undefined;
+function isTrue(v: any) {
+  const p = toPrimitive(v);
+  return p === true || p === 'T' || p === '.T.';
 }
 
-function computeExtrudedAreaSolid(api: any, modelID: number, item: any) {
-  const profId = item?.SweptArea?.value;
-  const depth  = +((item?.Depth?.value) ?? item?.Depth ?? 0);
-  if (!profId || depth <= 0) return;
+function clippingMesh(
+  api: any,
+  modelID: number,
+  item: any,
+  objMatrix: Mat4,
+  angleFactor?: number,
+  depth = 0,
+): SolidMesh | undefined {
+  if (!item || depth > 32) return;
+  if (item.SweptArea) return extrusionMesh(api, modelID, item, objMatrix, angleFactor);
+  if (!item.FirstOperand?.value || !item.SecondOperand?.value) return;
+
+  const first = clippingMesh(
+    api, modelID, api.GetLine(modelID, item.FirstOperand.value), objMatrix, angleFactor, depth + 1,
+  );
+  if (!first) return;
+
+  const hs = api.GetLine(modelID, item.SecondOperand.value);
+  const plane = hs?.BaseSurface?.value ? api.GetLine(modelID, hs.BaseSurface.value) : null;
+  const op = String(toPrimitive(item.Operator) ?? '').toUpperCase();
+  // UNION/INTERSECTION oder Solid als zweiter Operand: nur der erste Operand zählt
+  if (op !== 'DIFFERENCE' || !plane?.Position?.value) return { ...first, approx: true };
+
+  // AgreementFlag=TRUE: Ebenennormale zeigt vom Halbraum-Material weg
+  const pm = multiply(objMatrix, axis2PlacementMatrix(api, modelID, plane.Position.value));
+  const o = { x: pm[12], y: pm[13], z: pm[14] };
+  const n = { x: pm[8], y: pm[9], z: pm[10] };
+  const r = isTrue(hs.AgreementFlag) ? { x: -n.x, y: -n.y, z: -n.z } : n;
+
+  // IfcPolygonalBoundedHalfSpace: als unbegrenzt gerechnet – exakt, solange der Körper
+  // vollständig innerhalb der Begrenzung liegt, sonst als Näherung markiert
+  let approx = first.approx;
+  if (hs.PolygonalBoundary?.value) {
+    const bm = multiply(objMatrix, axis2PlacementMatrix(api, modelID, hs.Position?.value));
+    const boundary = profileLoops(api, modelID, hs.PolygonalBoundary.value, angleFactor)?.loops[0];
+    const local = (p: { x: number; y: number; z: number }) => {
+      const q = { x: p.x - bm[12], y: p.y - bm[13], z: p.z - bm[14] };
+      return { x: q.x * bm[0] + q.y * bm[1] + q.z * bm[2], y: q.x * bm[4] + q.y * bm[5] + q.z * bm[6] };
+    };
+    if (!boundary || first.tris.some(t => t.some(p => !pointInPolygon(local(p), boundary)))) approx = true;
+  }
 
-  const A = areaOfProfile(api, modelID, profId);
-  if (A <= 0) return;
+  return { tris: clipByPlane(first.tris, o, r), ratio: first.ratio, approx };
+}
 
-  let baseZ: number | undefined;
-  let topZ: number | undefined;
-  const pos = item?.Position;
-  if (pos && pos.value) {
-    const plc = api.GetLine(modelID, pos.value);
-    baseZ = getAxisPlacementZ(api, modelID, plc);
-    if (baseZ != null) topZ = baseZ + depth;
-  }
-  return { area: A, volume: A * depth, base: baseZ, top: topZ };
+function computeClippedSolid(api: any, modelID: number, item: any, objMatrix: Mat4, angleFactor?: number) {
+  if (!item?.FirstOperand || !item?.SecondOperand) return;
+  const mesh = clippingMesh(api, modelID, item, objMatrix, angleFactor);
+  const s = mesh && analyzeSolid(mesh.tris);
+  if (!s || (s.area <= 0 && s.volume <= 0)) return;
+  return {
+    area: s.area * mesh.ratio,
+    volume: s.volume * mesh.ratio,
+    base: s.base,
+    top: s.top,
+    perimeter: s.perimeter,
+    wallArea: s.wallArea,
+    ceilingArea: s.ceilingArea * mesh.ratio,
+    approximated: mesh.approx || s.approximated,
+  };
 }
 
-/* ---- BRep: Faces sammeln, horizontale Grund-/Deckfläche finden ---- */
+/* ---- BRep: Faces sammeln und wie ein Face-Set auswerten ---- */
+/*   Geschlossene Schalen exakt über Tetraeder, Fußboden aus den nach unten  */
+/*   zeigenden Faces. Facetten-BReps außer dem einfachen Prisma gelten als   */
+/*   Näherung (Dachschrägen, in Facetten zerlegte Rundungen).               */
 
 function facesFromConnectedFaceSet(api: any, modelID: number, cfsId: number): number[] {
   const cfs = api.GetLine(modelID, cfsId);
@@ -393,244 +420,1188 @@ function facesFromConnectedFaceSet(api: any, modelID: number, cfsId: number): nu
   return out;
 }
 
-function facesFromClosedOrOpenShell(api: any, modelID: number, shellId: number): number[] {
-  // IfcClosedShell/IfcOpenShell haben ebenfalls CfsFaces/Faces
-  return facesFromConnectedFaceSet(api, modelID, shellId);
-}
-
-function outerLoopPointsOfFace(api: any, modelID: number, faceId: number) {
+// Loops eines IfcFace: [außen, ...innen]; Orientation=false dreht den Loop um
+function faceLoops(api: any, modelID: number, faceId: number): P3[][] | undefined {
   const face = api.GetLine(modelID, faceId);
-  const bounds = face?.Bounds ?? [];
-  let best: Array<{x:number;y:number;z:number}> | undefined;
-  let bestArea = -1;
-
-  for (const b of bounds) {
-    const bid = b?.value; if (!bid) continue;
-    const bl = api.GetLine(modelID, bid);
-    // Prefer IfcFaceOuterBound, ansonsten größtes Loop mit Orientation=true
-    const loopRef = bl?.Bound?.value;
-    if (!loopRef) continue;
-    const pts = pointsFromPolyLoop(api, modelID, loopRef);
+  const loops: Array<{ pts: P3[]; score: number }> = [];
+  for (const b of (face?.Bounds ?? [])) {
+    const bl = b?.value ? api.GetLine(modelID, b.value) : null;
+    if (!bl?.Bound?.value) continue;
+    const pts = pointsFromPolyLoop(api, modelID, bl.Bound.value);
     if (pts.length < 3) continue;
-    const area = dominantProjectionArea(pts);
-    const isOuter = (bl?.isInner === false) || (bl?.flag === true) || (bl?.Orientation === true) || (bl?.__proto__?.constructor?.name === 'IfcFaceOuterBound');
-    // Wähle das größte Loop; Outer bevorzugen
-    const score = area * (isOuter ? 10 : 1);
-    if (score > bestArea) {
-      bestArea = score;
-      best = pts;
+    if (bl.Orientation != null && !isTrue(bl.Orientation)) pts.reverse();
+    // IfcFaceOuterBound ist außen, sonst der größte Loop
+    const n = newellNormal(pts);
+    loops.push({ pts, score: bl.type === IFCFACEOUTERBOUND ? Infinity : Math.hypot(n.x, n.y, n.z) });
+  }
+  if (!loops.length) return;
+  return loops.sort((x, y) => y.score - x.score).map(l => l.pts);
+}
+
+// Einfaches Prisma: nur horizontale und senkrechte Faces, Fußboden und Decke je auf einer Ebene
+function isSimplePrism(faces: P3[][][]): boolean {
+  const verticalSin = Math.sqrt(1 - HORIZONTAL_COS * HORIZONTAL_COS);
+  const levels: number[] = [];
+  let minZ = Infinity, maxZ = -Infinity;
+  for (const [outer] of faces) {
+    const n = newellNormal(outer);
+    const len = Math.hypot(n.x, n.y, n.z);
+    if (len <= 0) continue;
+    const nz = Math.abs(n.z / len);
+    if (nz >= HORIZONTAL_COS) levels.push(avgZ(outer));
+    else if (nz > verticalSin) return false;
+    for (const p of outer) {
+      if (p.z < minZ) minZ = p.z;
+      if (p.z > maxZ) maxZ = p.z;
     }
   }
-  return best;
+  const tol = 1e-6 * Math.max(1, maxZ - minZ);
+  return levels.length > 0 && levels.every(z => z - minZ <= tol || maxZ - z <= tol);
 }
 
-function computeFromBrep(api: any, modelID: number, item: any) {
+function computeFromBrep(api: any, modelID: number, item: any, objMatrix: Mat4) {
   // Sammle alle Faces (FacetedBrep, FaceBasedSurfaceModel, ShellBasedSurfaceModel)
   const faceIds: number[] = [];
+  // Volumen nur aus geschlossenen Schalen
+  let closed = true;
+  const addShell = (id: number) => {
+    if (api.GetLine(modelID, id)?.type !== IFCCLOSEDSHELL) closed = false;
+    faceIds.push(...facesFromConnectedFaceSet(api, modelID, id));
+  };
 
   // IfcFacetedBrep: Outer -> IfcClosedShell
   if (item?.Outer?.value) {
-    faceIds.push(...facesFromClosedOrOpenShell(api, modelID, item.Outer.value));
+    faceIds.push(...facesFromConnectedFaceSet(api, modelID, item.Outer.value));
   }
 
   // IfcFaceBasedSurfaceModel: FbsmFaces[] -> ConnectedFaceSet
   if (Array.isArray(item?.FbsmFaces)) {
-    for (const f of item.FbsmFaces) if (f?.value) {
-      faceIds.push(...facesFromConnectedFaceSet(api, modelID, f.value));
-    }
+    for (const f of item.FbsmFaces) if (f?.value) addShell(f.value);
   }
 
   // IfcShellBasedSurfaceModel: SbsmBoundary[] -> (Closed/Open)Shell
   const shells = item?.SbsmBoundary ?? item?.Shells ?? item?.Boundary ?? [];
   if (Array.isArray(shells)) {
-    for (const s of shells) if (s?.value) {
-      faceIds.push(...facesFromClosedOrOpenShell(api, modelID, s.value));
-    }
+    for (const s of shells) if (s?.value) addShell(s.value);
   }
 
   if (!faceIds.length) return;
 
-  // Horizontal „unten“ und „oben“ bestimmen
-  type Cand = { pts: Array<{x:number;y:number;z:number}>, area: number, z: number };
-  let base: Cand | undefined;
-  let top:  Cand | undefined;
-
+  const faces: P3[][][] = [];
   for (const fid of faceIds) {
-    const pts = outerLoopPointsOfFace(api, modelID, fid);
-    if (!pts || pts.length < 3) continue;
+    const loops = faceLoops(api, modelID, fid);
+    if (loops) faces.push(loops.map(l => l.map(p => transformPoint(objMatrix, p))));
+  }
+  const m = faces.length ? faceSetMetrics(faces, closed) : undefined;
+  if (!m) return;
+
+  return { ...m, approximated: !closed || !isSimplePrism(faces) };
+}
+
+/* ---- IFC4 Tessellation: IfcTriangulatedFaceSet / IfcPolygonalFaceSet ---- */
+/*   Exakt: Volumen über vorzeichenbehaftete Tetraeder, Fläche über die      */
+/*   horizontalen, nach unten zeigenden Faces (Fußboden, auch Split-Level).  */
+
+type P3 = { x: number; y: number; z: number };
+
+function readPointList3D(api: any, modelID: number, listId: number): P3[] {
+  const pl = api.GetLine(modelID, listId);
+  const out: P3[] = [];
+  for (const c of (pl?.CoordList ?? [])) {
+    const x = +((c?.[0]?.value) ?? c?.[0] ?? 0);
+    const y = +((c?.[1]?.value) ?? c?.[1] ?? 0);
+    const z = +((c?.[2]?.value) ?? c?.[2] ?? 0);
+    out.push({ x, y, z });
+  }
+  return out;
+}
+
+function readIndexList(list: any): number[] {
+  const out: number[] = [];
+  for (const v of (list ?? [])) {
+    const n = +((v?.value) ?? v);
+    if (isFinite(n)) out.push(n);
+  }
+  return out;
+}
+
+// Newell-Normale (nicht normiert, Länge = 2 × Polygonfläche)
+function newellNormal(pts: P3[]): P3 {
+  let nx = 0, ny = 0, nz = 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    const a = pts[j], b = pts[i];
+    nx += (a.y - b.y) * (a.z + b.z);
+    ny += (a.z - b.z) * (a.x + b.x);
+    nz += (a.x - b.x) * (a.y + b.y);
+  }
+  return { x: nx, y: ny, z: nz };
+}
+
+// Vorzeichenbehaftetes 6-faches Volumen (Fächer-Triangulierung um pts[0])
+function signedVolume6(pts: P3[]): number {
+  let v = 0;
+  const a = pts[0];
+  for (let i = 1; i + 1 < pts.length; i++) {
+    const b = pts[i], c = pts[i + 1];
+    v += a.x * (b.y * c.z - b.z * c.y)
+       - a.y * (b.x * c.z - b.z * c.x)
+       + a.z * (b.x * c.y - b.y * c.x);
+  }
+  return v;
+}
 
-    // Prüfe Horizontalität: Normal Richtung z
-    const a = pts[0], b = pts[1], c = pts[2];
-    const ux = b.x - a.x, uy = b.y - a.y, uz = b.z - a.z;
-    const vx = c.x - a.x, vy = c.y - a.y, vz = c.z - a.z;
-    const nz = (ux * vy - uy * vx);      // z-Komponente der XY-Normalen (schnelle Näherung)
-    const horizScore = Math.abs(nz);     // groß ⇒ eher horizontal
+// Faces als Fächer-Dreiecke; Öffnungen gegen den Außen-Loop orientiert
+function facesToTriangles(faces: P3[][][]): Tri[] {
+  const tris: Tri[] = [];
+  for (const [outer, ...inners] of faces) {
+    const n = newellNormal(outer);
+    for (const loop of [outer, ...inners]) {
+      const ni = newellNormal(loop);
+      const l = (loop !== outer && (ni.x * n.x + ni.y * n.y + ni.z * n.z) > 0) ? loop.slice().reverse() : loop;
+      for (let i = 1; i + 1 < l.length; i++) tris.push([l[0], l[i], l[i + 1]]);
+    }
+  }
+  return tris;
+}
 
-    if (horizScore <= 1e-6) continue;
+function computeFromTessellation(api: any, modelID: number, item: any, objMatrix: Mat4) {
+  const coordsId = item?.Coordinates?.value;
+  if (!coordsId) return;
+  const isTri = Array.isArray(item?.CoordIndex);
+  const isPoly = Array.isArray(item?.Faces);
+  if (!isTri && !isPoly) return;
+
+  const coords = readPointList3D(api, modelID, coordsId).map(p => transformPoint(objMatrix, p));
+  if (!coords.length) return;
+
+  // PnIndex: optionale Indirektion in die Punktliste (1-basiert)
+  const pnIndex = readIndexList(item?.PnIndex);
+  const pt = (i: number) => coords[(pnIndex.length ? pnIndex[i - 1] : i) - 1];
+
+  // Faces als Punkt-Loops: [outer, ...inner]
+  const faces: P3[][][] = [];
+  if (isTri) {
+    for (const tri of item.CoordIndex) {
+      const loop = readIndexList(tri).map(pt);
+      if (loop.length === 3 && loop.every(Boolean)) faces.push([loop]);
+    }
+  } else {
+    for (const f of item.Faces) {
+      const fid = f?.value; if (!fid) continue;
+      const fl = api.GetLine(modelID, fid);
+      const outer = readIndexList(fl?.CoordIndex).map(pt);
+      if (outer.length < 3 || !outer.every(Boolean)) continue;
+      const loops = [outer];
+      for (const inner of (fl?.InnerCoordIndices ?? [])) {
+        const l = readIndexList(inner).map(pt);
+        if (l.length >= 3 && l.every(Boolean)) loops.push(l);
+      }
+      faces.push(loops);
+    }
+  }
+  if (!faces.length) return;
+
+  return faceSetMetrics(faces, toPrimitive(item?.Closed) !== false);
+}
+
+// Faces als Punkt-Loops in Weltkoordinaten auswerten (Face-Sets und BReps)
+function faceSetMetrics(faces: P3[][][], closed: boolean) {
+  let vol6 = 0;
+  // nzUnit: Horizontalität des Outer-Loops, areaXY: Projektion abzgl. Öffnungen
+  type Face = { nzUnit: number; areaXY: number; z: number };
+  const faceData: Face[] = [];
+  let minZ = Infinity, maxZ = -Infinity;
+
+  for (const [outer, ...inners] of faces) {
+    const n = newellNormal(outer);
+    let v = signedVolume6(outer);
+    let nz = n.z;
+    for (const inner of inners) {
+      // Öffnungen abziehen – unabhängig davon, wie herum sie orientiert sind
+      const ni = newellNormal(inner);
+      const sameSense = (ni.x * n.x + ni.y * n.y + ni.z * n.z) > 0;
+      v  += sameSense ? -signedVolume6(inner) : signedVolume6(inner);
+      nz += sameSense ? -ni.z : ni.z;
+    }
+    vol6 += v;
+    const len = Math.hypot(n.x, n.y, n.z);
+    if (len > 0) faceData.push({ nzUnit: n.z / len, areaXY: Math.abs(nz) * 0.5, z: avgZ(outer) });
+    for (const p of outer) {
+      if (p.z < minZ) minZ = p.z;
+      if (p.z > maxZ) maxZ = p.z;
+    }
+  }
 
-    const area = polygonArea2D(pts.map(p => ({ x: p.x, y: p.y })));
-    const z = avgZ(pts);
+  // Orientierung: bei negativem Volumen zeigen die Normalen nach innen
+  const flip = vol6 < 0 ? -1 : 1;
+  const horizontal = faceData.filter(f => Math.abs(f.nzUnit) >= HORIZONTAL_COS);
 
-    const cand: Cand = { pts, area, z };
-    if (!base || z < base.z) base = cand;
-    if (!top  || z > top.z ) top  = cand;
+  // Fußboden = horizontale Faces mit Außennormale nach unten
+  let floor = closed ? horizontal.filter(f => f.nzUnit * flip < 0) : [];
+  if (!floor.length) {
+    // offene Flächenmodelle: keine verlässliche Orientierung → unterste Ebene
+    const tol = 1e-6 * Math.max(1, maxZ - minZ);
+    floor = horizontal.filter(f => f.z - minZ <= tol);
   }
 
-  if (!base || !top) return;
+  const area = floor.reduce((sum, f) => sum + f.areaXY, 0);
+  const volume = closed ? Math.abs(vol6) / 6 : 0;
+  if (area <= 0 && volume <= 0) return;
+
+  const base = floor.length ? Math.min(...floor.map(f => f.z)) : minZ;
+
+  // Ausbau-Kennwerte über dasselbe Netz – nur bei geschlossenen Körpern verlässlich
+  const s = closed ? analyzeSolid(facesToTriangles(faces)) : undefined;
+  return {
+    area,
+    volume,
+    base,
+    top: maxZ,
+    perimeter: s?.perimeter,
+    wallArea: s?.wallArea,
+    ceilingArea: s?.ceilingArea,
+  };
+}
+
+/* ---- BoundingBox (RepresentationIdentifier "Box") ---- */
+
+function computeBoundingBox(api: any, modelID: number, item: any, objMatrix: Mat4) {
+  if (!('XDim' in (item ?? {})) || !('ZDim' in item) || !item?.Corner) return;
+  const x = +((item?.XDim?.value) ?? item?.XDim ?? 0);
+  const y = +((item?.YDim?.value) ?? item?.YDim ?? 0);
+  const z = +((item?.ZDim?.value) ?? item?.ZDim ?? 0);
+  if (x <= 0 || y <= 0) return;
+
+  const c = transformPoint(objMatrix, coord3(api, modelID, item.Corner.value));
+  return {
+    area: x * y,
+    volume: x * y * Math.max(0, z),
+    base: c.z,
+    top: c.z + Math.max(0, z),
+    perimeter: 2 * (x + y),
+    wallArea: 2 * (x + y) * Math.max(0, z),
+    ceilingArea: x * y,
+  };
+}
 
-  const height = Math.max(0, top.z - base.z);
-  const A = Math.max(base.area, top.area);
-  const V = A * height;
+/* ---- Representation-Auswahl statt Summe über alle Representations ---- */
+
+type RepGeometry = {
+  area: number;
+  volume: number;
+  base?: number;
+  top?: number;
+  perimeter?: number;
+  wallArea?: number;
+  ceilingArea?: number;
+  approximated?: boolean;
+};
+type RepCandidate = { id: number; identifier?: string; repType?: string; items: any[] };
+
+export const DEFAULT_AREA_REPRESENTATIONS = ['FootPrint', 'Body', 'Box'];
+export const DEFAULT_VOLUME_REPRESENTATIONS = ['Body', 'Box'];
+
+function splitList(raw: string | string[] | undefined, fallback: string[]): string[] {
+  if (raw == null) return fallback;
+  const s = Array.isArray(raw) ? raw.join(',') : raw;
+  const out = s.split(/[\n,;>]+|→/g).map(t => t.trim()).filter(Boolean);
+  return out.length ? out : fallback;
+}
+
+/* ---- IfcMappedItem (Typ-Geometrie, v. a. bei Bauteilen) ---- */
+
+// Skalierte Mappings (MappingTarget.Scale) werden ohne Skalierung gerechnet → Näherung
+function computeMappedItem(
+  api: any,
+  modelID: number,
+  item: any,
+  objMatrix: Mat4,
+  angleFactor?: number,
+  depth = 0,
+): RepGeometry | undefined {
+  const srcId = item?.MappingSource?.value;
+  if (!srcId || depth > 8) return;
+  const src = api.GetLine(modelID, srcId);
+  const mapped = src?.MappedRepresentation?.value ? api.GetLine(modelID, src.MappedRepresentation.value) : null;
+  if (!Array.isArray(mapped?.Items)) return;
+
+  const targetId = item?.MappingTarget?.value;
+  const m = multiply(
+    objMatrix,
+    multiply(cartesianOperatorMatrix(api, modelID, targetId), axis2PlacementMatrix(api, modelID, src?.MappingOrigin?.value)),
+  );
+  const g = computeRepresentationItems(api, modelID, mapped.Items, m, angleFactor, depth + 1);
+  if (g && Math.abs(operatorScale(api, modelID, targetId) - 1) > 1e-9) g.approximated = true;
+  return g;
+}
+
+// Alle Items einer (!) Representation summieren – mehrere Solids in "Body" sind legitim
+function computeRepresentationItems(
+  api: any,
+  modelID: number,
+  items: any[],
+  objMatrix: Mat4,
+  angleFactor?: number,
+  depth = 0,
+): RepGeometry | undefined {
+  let area = 0, volume = 0, approximated = false;
+  let perimeter = 0, wallArea = 0, ceilingArea = 0;
+  let base: number | undefined, top: number | undefined;
 
-  return { area: A, volume: V, base: base.z, top: top.z };
+  for (const it of items) {
+    const iid = it?.value; if (!iid) continue;
+    const item = api.GetLine(modelID, iid);
+
+    // 0) MappedItem, 1) Extrusion (auch schräg/verjüngt), 2) Clipping, 3) BoundingBox, 4) IFC4-Tessellation, 5) BRep
+    const g: RepGeometry | undefined =
+      computeMappedItem(api, modelID, item, objMatrix, angleFactor, depth) ??
+      computeExtrudedAreaSolid(api, modelID, item, objMatrix, angleFactor) ??
+      computeClippedSolid(api, modelID, item, objMatrix, angleFactor) ??
+      computeBoundingBox(api, modelID, item, objMatrix) ??
+      computeFromTessellation(api, modelID, item, objMatrix) ??
+      computeFromBrep(api, modelID, item, objMatrix);
+    if (!g) continue;
+
+    area += g.area;
+    volume += g.volume;
+    approximated = approximated || !!g.approximated;
+    perimeter += g.perimeter ?? 0;
+    wallArea += g.wallArea ?? 0;
+    ceilingArea += g.ceilingArea ?? 0;
+    if (g.base != null) base = (base == null) ? g.base : Math.min(base, g.base);
+    if (g.top  != null) top  = (top  == null) ? g.top  : Math.max(top,  g.top);
+  }
+
+  if (area > 0 || volume > 0) {
+    return {
+      area,
+      volume,
+      base,
+      top,
+      perimeter: perimeter || undefined,
+      wallArea: wallArea || undefined,
+      ceilingArea: ceilingArea || undefined,
+      approximated,
+    } as RepGeometry;
+  }
+}
+
+// FootPrint: geschlossene 2D-Kurven (Polyline, GeometricCurveSet …)
+function footprintCurveIds(api: any, modelID: number, items: any[]): number[] {
+  const out: number[] = [];
+  for (const it of items) {
+    const iid = it?.value; if (!iid) continue;
+    const item = api.GetLine(modelID, iid);
+    const elements = Array.isArray(item?.Elements) ? item.Elements : [it];
+    for (const el of elements) if (el?.value) out.push(el.value);
+  }
+  return out;
 }
 
-function getFromRepresentation(api: any, modelID: number, spaceId: number) {
+function computeFootprintArea(api: any, modelID: number, items: any[], angleFactor?: number): number {
+  return footprintCurveIds(api, modelID, items)
+    .reduce((A, id) => A + areaOfClosedCurve(api, modelID, id, angleFactor), 0);
+}
+
+function computeFootprintPerimeter(api: any, modelID: number, items: any[], angleFactor?: number): number {
+  return footprintCurveIds(api, modelID, items)
+    .reduce((L, id) => L + loopsPerimeter(profileLoops(api, modelID, id, angleFactor)?.loops ?? []), 0);
+}
+
+function isCurveRep(c: RepCandidate) {
+  return c.identifier?.toLowerCase() === 'footprint' || !!c.repType?.toLowerCase().startsWith('curve');
+}
+
+function matchesRep(c: RepCandidate, token: string) {
+  const t = token.toLowerCase();
+  return c.identifier?.toLowerCase() === t || c.repType?.toLowerCase() === t;
+}
+
+function getFromRepresentation(
+  api: any,
+  modelID: number,
+  spaceId: number,
+  placementCache?: Map<number, Mat4>,
+  areaOrder: string[] = DEFAULT_AREA_REPRESENTATIONS,
+  volumeOrder: string[] = DEFAULT_VOLUME_REPRESENTATIONS,
+  angleFactor?: number,
+) {
   const sp = api.GetLine(modelID, spaceId);
   const rep = sp?.Representation?.value ? api.GetLine(modelID, sp.Representation.value) : null;
   if (!rep || !Array.isArray(rep.Representations)) return;
 
-  let area = 0, volume = 0;
-  let base: number | undefined, top: number | undefined;
+  // Weltkoordinaten über die komplette IfcLocalPlacement-Kette
+  const objMatrix = objectPlacementMatrix(api, modelID, sp, placementCache);
 
+  const candidates: RepCandidate[] = [];
   for (const r of rep.Representations) {
     const rid = r?.value; if (!rid) continue;
     const sr = api.GetLine(modelID, rid);
-    const items = sr?.Items ?? [];
-    for (const it of items) {
-      const iid = it?.value; if (!iid) continue;
-      const item = api.GetLine(modelID, iid);
-
-      // 1) Extrusion
-      const ex = computeExtrudedAreaSolid(api, modelID, item);
-      if (ex) {
-        area += ex.area;
-        volume += ex.volume;
-        if (ex.base != null) base = (base == null) ? ex.base : Math.min(base, ex.base);
-        if (ex.top  != null) top  = (top  == null) ? ex.top  : Math.max(top,  ex.top);
-        continue;
-      }
+    candidates.push({
+      id: rid,
+      identifier: toPrimitive(sr?.RepresentationIdentifier) ?? undefined,
+      repType: toPrimitive(sr?.RepresentationType) ?? undefined,
+      items: sr?.Items ?? [],
+    });
+  }
+
+  const solidCache = new Map<number, RepGeometry | undefined>();
+  const solidOf = (c: RepCandidate) => {
+    if (!solidCache.has(c.id)) {
+      solidCache.set(c.id, computeRepresentationItems(api, modelID, c.items, objMatrix, angleFactor));
+    }
+    return solidCache.get(c.id);
+  };
+  const labelOf = (c: RepCandidate) => c.identifier ?? c.repType ?? `#${c.id}`;
+
+  // Volume (+ Base/Top): erste Representation in Präferenzreihenfolge mit Ergebnis
+  let volumeRep: RepCandidate | undefined;
+  let solid: RepGeometry | undefined;
+  for (const token of volumeOrder) {
+    for (const c of candidates.filter(c => matchesRep(c, token))) {
+      const g = solidOf(c);
+      if (g && g.volume > 0) { volumeRep = c; solid = g; break; }
+    }
+    if (solid) break;
+  }
+  // Keine passende Kennung (z. B. fehlender Identifier) → erste auswertbare Representation
+  if (!solid) {
+    for (const c of candidates) {
+      const g = solidOf(c);
+      if (g) { volumeRep = c; solid = g; break; }
+    }
+  }
+
+  // Area: FootPrint-Kurven oder Solid-Grundfläche – ebenfalls nach Präferenz
+  let areaRep: RepCandidate | undefined;
+  let area = 0, areaApprox = false;
+  for (const token of areaOrder) {
+    for (const c of candidates.filter(c => matchesRep(c, token))) {
+      const curves = isCurveRep(c);
+      const a = curves ? computeFootprintArea(api, modelID, c.items, angleFactor) : (solidOf(c)?.area ?? 0);
+      if (a > 0) { areaRep = c; area = a; areaApprox = !curves && !!solidOf(c)?.approximated; break; }
+    }
+    if (areaRep) break;
+  }
+  if (!areaRep && solid && solid.area > 0) { areaRep = volumeRep; area = solid.area; areaApprox = !!solid.approximated; }
+
+  // Umfang aus dem Körper, sonst aus der FootPrint-Kurve
+  let perimeter = solid?.perimeter;
+  if (!perimeter && areaRep && isCurveRep(areaRep)) {
+    perimeter = computeFootprintPerimeter(api, modelID, areaRep.items, angleFactor) || undefined;
+  }
+
+  if (area > 0 || (solid && solid.volume > 0)) {
+    return {
+      area,
+      volume: solid?.volume ?? 0,
+      base: solid?.base,
+      top: solid?.top,
+      perimeter,
+      wallArea: solid?.wallArea,
+      ceilingArea: solid?.ceilingArea,
+      areaRepresentation: areaRep ? labelOf(areaRep) : undefined,
+      volumeRepresentation: solid && volumeRep ? labelOf(volumeRep) : undefined,
+      approximated: areaApprox || !!solid?.approximated,
+    };
+  }
+}
+
+/* ---- Raumbegrenzungen über IfcRelSpaceBoundary (1st/2nd Level) ---- */
+
+const OPENING_TYPES = new Set<number>([
+  IFCDOOR, IFCDOORSTANDARDCASE, IFCWINDOW, IFCWINDOWSTANDARDCASE, IFCOPENINGELEMENT,
+]);
+
+// Fläche der ConnectionGeometry (IfcConnectionSurfaceGeometry) einer Raumbegrenzung
+function connectionSurfaceArea(api: any, modelID: number, cgId: number, angleFactor?: number): number {
+  const cg = api.GetLine(modelID, cgId);
+  const sid = cg?.SurfaceOnRelatingElement?.value;
+  if (!sid) return 0;
+  const srf = api.GetLine(modelID, sid);
+
+  // IfcCurveBoundedPlane: 2D-Rand im System der BasePlane
+  if (srf?.OuterBoundary?.value) {
+    let A = areaOfClosedCurve(api, modelID, srf.OuterBoundary.value, angleFactor);
+    for (const ib of (srf.InnerBoundaries ?? [])) {
+      if (ib?.value) A -= areaOfClosedCurve(api, modelID, ib.value, angleFactor);
+    }
+    return Math.max(0, A);
+  }
+
+  // IfcFaceSurface / IfcFace: PolyLoops in 3D – größter Loop außen, Rest abziehen
+  if (Array.isArray(srf?.Bounds)) {
+    const areas: number[] = [];
+    for (const b of srf.Bounds) {
+      const bl = b?.value ? api.GetLine(modelID, b.value) : null;
+      const pts = bl?.Bound?.value ? pointsFromPolyLoop(api, modelID, bl.Bound.value) : [];
+      if (pts.length < 3) continue;
+      const n = newellNormal(pts);
+      areas.push(Math.hypot(n.x, n.y, n.z) * 0.5);
+    }
+    areas.sort((a, b) => b - a);
+    return Math.max(0, areas.reduce((A, a, i) => (i ? A - a : a), 0));
+  }
+  return 0;
+}
+
+export type BoundaryCategory = 'Wall' | 'Slab' | 'Door' | 'Window' | 'Opening' | 'Virtual' | 'Other';
+
+export interface SpaceBoundary {
+  spaceId: number;
+  elementId?: number;
+  elementGlobalId?: string;
+  elementName?: string;
+  elementType: string;
+  category: BoundaryCategory;
+  level?: '1st' | '2nd';
+  physicalOrVirtual?: string;
+  internalOrExternal?: string;
+  area?: number; // SI (m²), aus ConnectionGeometry – bei Türen/Fenstern ersatzweise Nennmaße
+}
+
+function boundaryCategory(el: any, typeName: string): BoundaryCategory {
+  if (el?.type != null && OPENING_TYPES.has(el.type)) {
+    return typeName.startsWith('IFCDOOR') ? 'Door' : typeName.startsWith('IFCWINDOW') ? 'Window' : 'Opening';
+  }
+  if (typeName.startsWith('IFCWALL') || typeName === 'IFCCURTAINWALL') return 'Wall';
+  if (typeName.startsWith('IFCSLAB')) return 'Slab';
+  if (typeName === 'IFCVIRTUALELEMENT') return 'Virtual';
+  return 'Other';
+}
+
+function boundaryLevel(rel: any): '1st' | '2nd' | undefined {
+  if (rel?.type === IFCRELSPACEBOUNDARY1STLEVEL) return '1st';
+  if (rel?.type === IFCRELSPACEBOUNDARY2NDLEVEL) return '2nd';
+  // IFC2x3: Ebene steht nur in Name/Description
+  const txt = `${toPrimitive(rel?.Name) ?? ''} ${toPrimitive(rel?.Description) ?? ''}`;
+  if (/1st\s*level/i.test(txt)) return '1st';
+  if (/2nd\s*level/i.test(txt)) return '2nd';
+}
+
+// Space-ID → alle Begrenzungen (inkl. IfcRelSpaceBoundary1st/2ndLevel)
+function buildSpaceBoundaryIndex(
+  api: any,
+  modelID: number,
+  units: ProjectUnits = SI_UNITS,
+): Map<number, SpaceBoundary[]> {
+  const bySpace = new Map<number, SpaceBoundary[]>();
+  const f = units.length * units.length;
+  const vec = api.GetLineIDsWithType(modelID, IFCRELSPACEBOUNDARY, true);
+  forEachIdVector(vec, (relId) => {
+    const rel = api.GetLine(modelID, relId);
+    const spaceId = rel?.RelatingSpace?.value;
+    if (!spaceId) return;
+    const elId = rel?.RelatedBuildingElement?.value;
+    const el = elId ? api.GetLine(modelID, elId) : null;
+    const typeName = (el && ifcClassName(el.type)) ?? '';
+
+    let A = rel?.ConnectionGeometry?.value
+      ? connectionSurfaceArea(api, modelID, rel.ConnectionGeometry.value, units.planeAngle)
+      : 0;
+    // ohne Verbindungsgeometrie: Nennmaße von Tür/Fenster
+    if (A <= 0 && el && OPENING_TYPES.has(el.type)) {
+      A = (Number(toPrimitive(el?.OverallWidth)) || 0) * (Number(toPrimitive(el?.OverallHeight)) || 0);
+    }
+
+    if (!bySpace.has(spaceId)) bySpace.set(spaceId, []);
+    bySpace.get(spaceId)!.push({
+      spaceId,
+      elementId: elId,
+      elementGlobalId: toPrimitive(el?.GlobalId) ?? undefined,
+      elementName: toPrimitive(el?.Name) ?? undefined,
+      elementType: typeName,
+      category: el ? boundaryCategory(el, typeName) : 'Virtual',
+      level: boundaryLevel(rel),
+      physicalOrVirtual: toPrimitive(rel?.PhysicalOrVirtualBoundary) ?? undefined,
+      internalOrExternal: toPrimitive(rel?.InternalOrExternalBoundary) ?? undefined,
+      area: A > 0 ? A * f : undefined,
+    });
+  });
+  return bySpace;
+}
+
+// Summen je Kategorie: Wände/Decken über alle Teilflächen, Türen/Fenster je Bauteil einmal (größte Fläche)
+function boundaryTotals(boundaries: SpaceBoundary[]) {
+  const elements = new Map<BoundaryCategory, Set<number>>();
+  const area = new Map<BoundaryCategory, number>();
+  const openingArea = new Map<number, { cat: BoundaryCategory; a: number }>();
+  for (const b of boundaries) {
+    if (b.elementId != null) {
+      if (!elements.has(b.category)) elements.set(b.category, new Set());
+      elements.get(b.category)!.add(b.elementId);
+    }
+    if (!b.area) continue;
+    if (b.elementId != null && (b.category === 'Door' || b.category === 'Window' || b.category === 'Opening')) {
+      const prev = openingArea.get(b.elementId);
+      if (!prev || prev.a < b.area) openingArea.set(b.elementId, { cat: b.category, a: b.area });
+    } else {
+      area.set(b.category, (area.get(b.category) ?? 0) + b.area);
+    }
+  }
+  for (const { cat, a } of openingArea.values()) area.set(cat, (area.get(cat) ?? 0) + a);
+  return {
+    count: (c: BoundaryCategory) => elements.get(c)?.size ?? 0,
+    area: (c: BoundaryCategory) => area.get(c) ?? 0,
+  };
+}
+
+// Space-ID → Summe der Tür-/Fenster-/Öffnungsflächen in m² (für NetWallArea)
+function openingAreaOf(boundaries: SpaceBoundary[] | undefined): number {
+  if (!boundaries?.length) return 0;
+  const t = boundaryTotals(boundaries);
+  return t.area('Door') + t.area('Window') + t.area('Opening');
+}
+
+// Bevorzugtes Qto-Set (Qto_SpaceBaseQuantities, Qto_WallBaseQuantities …), sonst gleichnamige Menge aus einem anderen Set
+function qtoValue(
+  flatProps: Record<string, any>,
+  names: string[],
+  preferSet = 'Qto_SpaceBaseQuantities',
+): number | undefined {
+  const prefix = preferSet + '.';
+  for (const nm of names) {
+    const keys = Object.keys(flatProps).filter(k => k.toLowerCase().endsWith('.' + nm.toLowerCase()));
+    keys.sort((a, b) => Number(!a.startsWith(prefix)) - Number(!b.startsWith(prefix)));
+    for (const k of keys) {
+      const v = Number(flatProps[k]);
+      if (flatProps[k] != null && isFinite(v)) return v;
+    }
+  }
+}
+
+/* ------------------------ Geometrie-Strategie pro Space --------------------- */
+
+interface SpaceGeometry {
+  area?: number;
+  volume?: number;
+  base?: number;
+  top?: number;
+  source: GeometrySource;
+  areaRepresentation?: string;
+  volumeRepresentation?: string;
+  approximated?: boolean; // Näherung (Bögen segmentiert, begrenzter Halbraum, schräger Boden …)
+  perimeter?: number;
+  wallArea?: number;
+  ceilingArea?: number;
+}
 
-      // 2) BRep
-      const br = computeFromBrep(api, modelID, item);
-      if (br) {
-        area += br.area;
-        volume += br.volume;
-        if (br.base != null) base = (base == null) ? br.base : Math.min(base, br.base);
-        if (br.top  != null) top  = (top  == null) ? br.top  : Math.max(top,  br.top);
+function getSpaceGeometry(
+  api: any,
+  modelID: number,
+  spaceId: number,
+  mode: GeometryMode,
+  placementCache?: Map<number, Mat4>,
+  areaOrder?: string[],
+  volumeOrder?: string[],
+  units: ProjectUnits = SI_UNITS,
+): SpaceGeometry | undefined {
+  if (mode !== 'mesh') {
+    try {
+      const rep = getFromRepresentation(
+        api, modelID, spaceId, placementCache, areaOrder, volumeOrder, units.planeAngle,
+      );
+      // Representation rechnet in Projekt-Längeneinheiten → SI
+      if (rep) {
+        const L = units.length;
+        const mul = (v: number | undefined, f: number) => (v == null ? v : v * f);
+        return {
+          ...rep,
+          area: rep.area * L * L,
+          volume: rep.volume * L * L * L,
+          base: mul(rep.base, L),
+          top: mul(rep.top, L),
+          perimeter: mul(rep.perimeter, L),
+          wallArea: mul(rep.wallArea, L * L),
+          ceilingArea: mul(rep.ceilingArea, L * L),
+          source: 'Representation',
+        };
       }
+    } catch {/* best effort */}
+    if (mode === 'representation') return;
+  }
+
+  // Tessellierung über web-ifc (bereits in Metern) – Fehler bleiben auf diesen Space beschränkt
+  try {
+    const m = getSpaceAreaVolume(api, modelID, spaceId);
+    if (m.area != null || m.volume != null) {
+      return { area: m.area, volume: m.volume, base: m.base, top: m.top, source: 'Mesh' };
     }
+  } catch {/* best effort */}
+}
+
+/* ------------------------ Zusatzgeometrie für Bauteile ---------------------- */
+
+// Erstes Extrusions-Solid (durch Clipping-Operanden und MappedItems hindurch)
+function findSweptSolid(api: any, modelID: number, items: any[], depth = 0): any {
+  if (depth > 8) return;
+  for (const it of items) {
+    let item = it?.value ? api.GetLine(modelID, it.value) : null;
+    let hops = 0;
+    while (item?.FirstOperand?.value && hops++ < 16) item = api.GetLine(modelID, item.FirstOperand.value);
+    if (item?.SweptArea?.value && item?.Depth != null) return item;
+    if (item?.MappingSource?.value) {
+      const src = api.GetLine(modelID, item.MappingSource.value);
+      const mapped = src?.MappedRepresentation?.value ? api.GetLine(modelID, src.MappedRepresentation.value) : null;
+      const found = findSweptSolid(api, modelID, mapped?.Items ?? [], depth + 1);
+      if (found) return found;
+    }
+  }
+}
+
+// Achslänge, Extrusionslänge, Querschnitt und Gesamtmaße (SI) – Basiswerte aus getSpaceGeometry
+function getElementGeometry(
+  api: any,
+  modelID: number,
+  elementId: number,
+  geo: SpaceGeometry | undefined,
+  units: ProjectUnits = SI_UNITS,
+  withRepresentation = true,
+): ElementGeometry {
+  const el = api.GetLine(modelID, elementId);
+  const L = units.length;
+  const g: ElementGeometry = {
+    area: geo?.area,
+    volume: geo?.volume,
+    base: geo?.base,
+    top: geo?.top,
+    perimeter: geo?.perimeter,
+  };
+
+  // Attribute (IfcDoor/IfcWindow) – keine Geometrie nötig
+  const w = Number(toPrimitive(el?.OverallWidth));
+  const h = Number(toPrimitive(el?.OverallHeight));
+  if (isFinite(w) && w > 0) g.overallWidth = w * L;
+  if (isFinite(h) && h > 0) g.overallHeight = h * L;
+
+  const rep = withRepresentation && el?.Representation?.value ? api.GetLine(modelID, el.Representation.value) : null;
+  for (const r of (rep?.Representations ?? [])) {
+    const sr = r?.value ? api.GetLine(modelID, r.value) : null;
+    const ident = String(toPrimitive(sr?.RepresentationIdentifier) ?? '').toLowerCase();
+    const items: any[] = sr?.Items ?? [];
+    try {
+      if (ident === 'axis' && g.axisLength == null) {
+        const len = items.reduce((s, it) => s + (it?.value ? curveLength(api, modelID, it.value, units.planeAngle) : 0), 0);
+        if (len > 0) g.axisLength = len * L;
+      } else if (ident === 'body' && g.depth == null) {
+        const solid = findSweptSolid(api, modelID, items);
+        if (!solid) continue;
+        const profId = solid.SweptArea.value;
+        g.depth = Number(toPrimitive(solid.Depth)) * L;
+        g.profileArea = areaOfProfile(api, modelID, profId, units.planeAngle) * L * L;
+        const loops = profileLoops(api, modelID, profId, units.planeAngle);
+        if (loops) g.profilePerimeter = loopsPerimeter(loops.loops) * L;
+      }
+    } catch {/* best effort */}
+  }
+  return g;
+}
+
+/* ------------------------------- Einheiten je Zeile ------------------------- */
+
+// Art der berechneten Spalten; Pset/Qto-Keys kommen beim Auslesen hinzu
+const COLUMN_KINDS: Record<string, QuantityKind> = {
+  'Area': 'area',
+  'Volume': 'volume',
+  'Base Elevation': 'length',
+  'Top Elevation': 'length',
+  'StoreyElevation': 'length',
+  'Perimeter': 'length',
+  'GrossWallArea': 'area',
+  'NetWallArea': 'area',
+  'CeilingArea': 'area',
+  [DIN277_AREA_COLUMN]: 'area',
+  'WallBoundaryArea': 'area',
+  'SlabBoundaryArea': 'area',
+  'DoorArea': 'area',
+  'WindowArea': 'area',
+  'BoundaryArea': 'area',
+  [MATERIAL_COLUMNS.thickness]: 'length',
+  'LayerThickness': 'length',
+};
+
+// SI → Ausgabeeinheiten (vor dem Runden)
+function convertRowUnits(row: Record<string, any>, kinds: Map<string, QuantityKind>, out?: OutputUnits) {
+  for (const [k, v] of Object.entries(row)) {
+    const kind = kinds.get(k);
+    // Listenwerte ("2.5; 3") je Eintrag umrechnen
+    if (kind) row[k] = valueFromSI(v, kind, out);
+  }
+}
+
+// Suffix erst nach dem Umbenennen – umbenannte Spalten behalten ihre Art
+function addUnitSuffix(
+  row: Record<string, any>,
+  kinds: Map<string, QuantityKind>,
+  out?: OutputUnits,
+  rename?: Record<string, string>,
+) {
+  const renamedFrom = new Map(Object.entries(rename ?? {}).map(([o, n]) => [n, o]));
+  const res: Record<string, any> = {};
+  for (const [k, v] of Object.entries(row)) {
+    const kind = kinds.get(k) ?? kinds.get(renamedFrom.get(k) ?? '');
+    res[kind ? withUnitSuffix(k, kind, out) : k] = v;
   }
+  return res;
+}
 
-  if (area > 0 || volume > 0) return { area, volume, base, top };
+// Mengenart je Ausgabespalte – Namen wie in der Zeile (umbenannt, ggf. mit Suffix)
+function collectColumnKinds(
+  target: Record<string, PhysicalQuantityKind>,
+  row: Record<string, any>,
+  kinds: Map<string, QuantityKind>,
+  quantityKinds: Map<string, PhysicalQuantityKind>,
+  out?: OutputUnits,
+  rename?: Record<string, string>,
+  suffix = false,
+) {
+  const renamedFrom = new Map(Object.entries(rename ?? {}).map(([o, n]) => [n, o]));
+  for (const k of Object.keys(row)) {
+    const orig = renamedFrom.get(k) ?? '';
+    const unitKind = kinds.get(k) ?? kinds.get(orig);
+    const kind = unitKind ?? quantityKinds.get(k) ?? quantityKinds.get(orig);
+    if (kind) target[suffix && unitKind ? withUnitSuffix(k, unitKind, out) : k] = kind;
+  }
 }
 
 /* --------------------------------- Hauptfunktion --------------------------- */
 
+export interface QtoReport {
+  schema?: string;                        // FILE_SCHEMA, z. B. "IFC4"
+  rows: Array<Record<string, any>>;
+  boundaries: Array<Record<string, any>>; // Long-Format je IfcRelSpaceBoundary (nur mit boundaries)
+  zones: Array<Record<string, any>>;      // Summen je IfcZone (nur mit zoneSummary)
+  materials: Array<Record<string, any>>;  // Schichten/Bestandteile/Profile je Objekt (nur mit materials)
+  quantityKinds?: Record<string, PhysicalQuantityKind>; // Ausgabespalte → Mengenart (nur mit quantityKinds)
+  warnings: string[];                     // nicht fatale Hinweise (ohne Geometrie, unaufgelöste Extra-Parameter)
+}
+
 export async function runQtoOnIFC(buffer: Buffer, opts: QtoOptions = {}) {
+  return (await runQtoReport(buffer, opts)).rows;
+}
+
+export async function runQtoReport(buffer: Buffer, opts: QtoOptions = {}): Promise<QtoReport> {
   const {
+    entityType = 'IFCSPACE',
     allParams = true,
     useGeometry = true,     // hier: Representation-Fallback
     forceGeometry = false,  // darf Pset/Qto überschreiben
+    geometryMode = 'representation',
+    areaRepresentations,
+    volumeRepresentations,
+    surfaces = false,
+    units: outputUnits,
+    unitSuffix = false,
+    din277,
+    boundaries = false,
+    zones = false,
+    zoneSummary = false,
+    classifications = false,
+    materials = false,
+    typeProperties = false,
+    typeColumns = false,
+    markTypeValues = false,
+    quantityKinds: withQuantityKinds = false,
     extraParams = [],
     renameMap,
     round,
   } = opts;
 
-  const api = new IfcAPI();
-  await api.Init();
-  const modelID = api.OpenModel(new Uint8Array(buffer));
+  // "IfcWall" → IFCWALL; Bauteile bekommen klassenspezifische Mengenspalten
+  const typeName = String(entityType).trim().toUpperCase();
+  const typeConst = (WEBIFC as any)[typeName];
+  if (typeof typeConst !== 'number') throw new Error(`Unknown IFC entity type "${entityType}"`);
+  const isSpace = typeConst === IFCSPACE;
+  const elementClass = isSpace ? undefined : elementClassFor(typeName);
+
+  // gemeinsames IfcAPI; Modell + Indizes kommen bei gleichem Inhalt aus dem Cache
+  const reader = await IfcModelReader.open(new Uint8Array(buffer), opts.model);
+  const { api, modelID } = reader;
 
   try {
-    const childToParent = buildAggregatesIndex(api as any, modelID);
-    const storeyNames   = getNameMapForTypes(api as any, modelID, IFCBUILDINGSTOREY);
-    const projectNames  = getNameMapForTypes(api as any, modelID, IFCPROJECT);
-    // Index jetzt immer bauen – wird auch für gezielte Extra-Parameter gebraucht
-    const relDefsByRelated = buildRelDefinesIndex(api as any, modelID);
+    // Placement-Kette wird von vielen Spaces geteilt (Storey/Building/Site)
+    const placementCache = new Map<number, Mat4>();
+    const areaOrder = splitList(areaRepresentations, DEFAULT_AREA_REPRESENTATIONS);
+    const volumeOrder = splitList(volumeRepresentations, DEFAULT_VOLUME_REPRESENTATIONS);
+    // IfcUnitAssignment: intern alles in SI, Umrechnung erst je Zeile
+    const projectUnits = reader.units;
+    // Project/Site/Building/Storey/ParentSpace – Aggregation + Containment
+    const spatial = reader.spatial;
+    const kinds = new Map<string, QuantityKind>(Object.entries(COLUMN_KINDS));
+    for (const c of elementClass?.columns ?? []) kinds.set(c.column, c.kind);
+    // Count/Weight/Time/Number – ohne Ausgabeeinheit, nur als Metadaten
+    const quantityKinds = new Map<string, PhysicalQuantityKind>();
+    const columnKinds: Record<string, PhysicalQuantityKind> = {};
+    const din277Rules = isSpace && din277?.length ? compileDin277Rules(din277) : undefined;
+    const boundaryIndex = (surfaces || boundaries) && isSpace
+      ? reader.index('spaceBoundaries:si', () => buildSpaceBoundaryIndex(api as any, modelID, projectUnits))
+      : new Map<number, SpaceBoundary[]>();
+
+    const zoneIndex = zones || zoneSummary ? reader.zones : undefined;
+    const classificationIndex = classifications ? reader.classifications : undefined;
+    // Zonen-ID → Summen in SI
+    const zoneTotals = new Map<number, { count: number; area: number; volume: number }>();
 
     const rows: Array<Record<string, any>> = [];
-    const spaceVec = api.GetLineIDsWithType(modelID, IFCSPACE);
-
-    forEachIdVector(spaceVec, (id) => {
-      const space = api.GetLine(modelID, id);
-
-      const row: Record<string, any> = {
-        GlobalId: toPrimitive(space?.GlobalId),
-        Name: toPrimitive(space?.Name),
-        LongName: toPrimitive(space?.LongName),
-        Number: toPrimitive(space?.Tag ?? space?.Number),
-      };
+    const boundaryRows: Array<Record<string, any>> = [];
+    const materialRows: Array<Record<string, any>> = [];
+    const warnings: string[] = [];
+    const tokens = splitExtraParams(extraParams as any);
+    // Extra-Parameter, die bei mindestens einem Objekt gefunden wurden
+    const matchedTokens = new Set<string>();
+    // Bauteile inkl. Subtypen (IfcWall → IfcWallStandardCase …)
+    const entityVec = api.GetLineIDsWithType(modelID, typeConst, !isSpace);
+
+    forEachIdVector(entityVec, (id) => {
+      const rec = reader.element(id, { type: typeColumns || materials, typeProperties });
+      const space = rec?.line;
+
+      const row: Record<string, any> = isSpace
+        ? {
+            GlobalId: toPrimitive(space?.GlobalId),
+            Name: toPrimitive(space?.Name),
+            LongName: toPrimitive(space?.LongName),
+            Number: toPrimitive(space?.Tag ?? space?.Number),
+          }
+        : {
+            GlobalId: toPrimitive(space?.GlobalId),
+            Name: toPrimitive(space?.Name),
+            Type: ifcClassName(space?.type) ?? typeName,
+            ObjectType: toPrimitive(space?.ObjectType),
+            Tag: toPrimitive(space?.Tag),
+            Count: 1,
+          };
 
       // Kontext
-      const { storey, project } = resolveStoreyAndProject(
-        childToParent, storeyNames, projectNames, id,
-      );
-      if (storey) row['Storey'] = storey;
-      if (project) row['Project'] = project;
-
-      // ---- Psets / Quantities sammeln (immer in flatProps), optional in row mergen
-      const flatProps: Record<string, any> = {};
-      const defs = relDefsByRelated.get(id) ?? [];
-      for (const def of defs) {
-        if (!def?.type) continue;
-        if (def.type === IFCPROPERTYSET) {
-          const o = extractPsetProps(api as any, modelID, def);
-          Object.assign(flatProps, o);
-          if (allParams) Object.assign(row, o);
-        } else if (def.type === IFCELEMENTQUANTITY) {
-          const o = extractQuantities(api as any, modelID, def);
-          Object.assign(flatProps, o);
-          if (allParams) Object.assign(row, o);
-        }
+      Object.assign(row, locationColumns(resolveLocation(spatial, id)));
+      if (zones && zoneIndex) Object.assign(row, zoneColumns(zoneIndex, id));
+      if (classificationIndex) Object.assign(row, classificationColumns(classificationIndex, id));
+
+      // Typobjekt (IfcRelDefinesByType)
+      if (typeColumns && rec?.typeObject) {
+        row['TypeName'] = rec.typeObject.name;
+        row['TypeGlobalId'] = rec.typeObject.globalId;
+      }
+
+      // ---- Psets / Quantities (SI, Exemplarwerte überschreiben Typwerte), optional in row mergen
+      for (const v of rec?.values ?? []) {
+        if (v.kind) kinds.set(v.key, v.kind);
+        if (v.quantityKind) quantityKinds.set(v.key, v.quantityKind);
       }
+      const flatProps: Record<string, any> = rec?.properties ?? {};
+      if (allParams) Object.assign(row, flatProps);
+      const fromType = rec?.fromType ?? [];
 
-      // Geometrie NUR über Representation (Extrusion/BRep) – kein Mesh / keine Triangulation
+      // Geometrie je nach geometryMode über Representation und/oder Mesh
+      let geo: SpaceGeometry | undefined;
       if (useGeometry || forceGeometry) {
-        try {
-          const rep = getFromRepresentation(api as any, modelID, id);
-          if (rep) {
-            setIfEmpty(row, 'Area',   roundIf(rep.area, round),   forceGeometry);
-            setIfEmpty(row, 'Volume', roundIf(rep.volume, round), forceGeometry);
-            if (rep.base != null) setIfEmpty(row, 'Base Elevation', roundIf(rep.base, round));
-            if (rep.top  != null) setIfEmpty(row, 'Top Elevation',  roundIf(rep.top,  round));
+        geo = getSpaceGeometry(
+          api as any, modelID, id, geometryMode, placementCache, areaOrder, volumeOrder, projectUnits,
+        );
+        if (geo) {
+          if (isSpace) {
+            setIfEmpty(row, 'Area',   geo.area,   forceGeometry);
+            setIfEmpty(row, 'Volume', geo.volume, forceGeometry);
           }
-        } catch {/* best effort */}
+          if (geo.base != null) setIfEmpty(row, 'Base Elevation', geo.base);
+          if (geo.top  != null) setIfEmpty(row, 'Top Elevation',  geo.top);
+        }
+        row['GeometrySource'] = geo?.source ?? 'None';
+        if (!geo) warnings.push(`${describeEntity(space, typeName)} has no usable geometry`);
+        row['GeometryApproximated'] = !!geo?.approximated;
+        if (geo?.areaRepresentation) row['AreaRepresentation'] = geo.areaRepresentation;
+        if (geo?.volumeRepresentation) row['VolumeRepresentation'] = geo.volumeRepresentation;
       }
 
-      // ------------------------ Extra Parameters anwenden ------------------------
-      const tokens = splitExtraParams(extraParams as any);
+      // Bauteile: Qto_<Klasse>BaseQuantities, Geometrie nur als Fallback (bzw. mit forceGeometry vorrangig)
+      if (elementClass) {
+        const eg = getElementGeometry(api as any, modelID, id, geo, projectUnits, useGeometry || forceGeometry);
+        for (const c of elementClass.columns) {
+          const fromQto = qtoValue(flatProps, c.qto ?? [c.column], elementClass.qtoSet);
+          const fromGeo = c.geometry?.(eg);
+          const v = forceGeometry ? (fromGeo ?? fromQto) : (fromQto ?? fromGeo);
+          if (v != null) row[c.column] = v;
+        }
+      }
 
-      // 1) Space.* Direktzugriffe
+      // Ausbau: Umfang, Wand-/Deckenflächen aus Geometrie, sonst Qto_SpaceBaseQuantities
+      if (surfaces && isSpace) {
+        const openings = openingAreaOf(boundaryIndex.get(id));
+        const perimeter = geo?.perimeter || qtoValue(flatProps, ['GrossPerimeter', 'NetPerimeter']);
+        const ceiling = geo?.ceilingArea || qtoValue(flatProps, ['GrossCeilingArea', 'NetCeilingArea']);
+        let gross = geo?.wallArea;
+        let net = gross != null ? Math.max(0, gross - openings) : undefined;
+        if (!gross) {
+          gross = qtoValue(flatProps, ['GrossWallArea']);
+          net = qtoValue(flatProps, ['NetWallArea']) ?? (gross != null ? Math.max(0, gross - openings) : undefined);
+        }
+        if (perimeter != null) row['Perimeter'] = perimeter;
+        if (gross != null) row['GrossWallArea'] = gross;
+        if (net != null) row['NetWallArea'] = net;
+        if (ceiling != null) row['CeilingArea'] = ceiling;
+      }
+
+      // Raumbegrenzungen: Anzahl/Flächen je Kategorie, Fensterflächenanteil (Tageslicht)
+      if (boundaries && isSpace) {
+        const list = boundaryIndex.get(id) ?? [];
+        const t = boundaryTotals(list);
+        row['BoundingWalls'] = t.count('Wall');
+        row['BoundingSlabs'] = t.count('Slab');
+        row['BoundingDoors'] = t.count('Door');
+        row['BoundingWindows'] = t.count('Window');
+        row['WallBoundaryArea'] = t.area('Wall');
+        row['SlabBoundaryArea'] = t.area('Slab');
+        row['DoorArea'] = t.area('Door');
+        row['WindowArea'] = t.area('Window');
+        const floor = qtoValue(flatProps, ['NetFloorArea', 'GrossFloorArea']) ?? geo?.area ?? Number(row['Area']);
+        row['WindowToFloorRatio'] = floor > 0 ? t.area('Window') / floor : null;
+
+        for (const b of list) {
+          const br: Record<string, any> = {
+            SpaceGlobalId: row['GlobalId'],
+            SpaceName: row['Name'],
+            Storey: row['Storey'],
+            ElementGlobalId: b.elementGlobalId,
+            ElementName: b.elementName,
+            ElementType: b.elementType,
+            Category: b.category,
+            Level: b.level,
+            PhysicalOrVirtual: b.physicalOrVirtual,
+            InternalOrExternal: b.internalOrExternal,
+            BoundaryArea: b.area,
+          };
+          convertRowUnits(br, kinds, outputUnits);
+          if (typeof round === 'number' && br['BoundaryArea'] != null) br['BoundaryArea'] = roundIf(br['BoundaryArea'], round);
+          boundaryRows.push(unitSuffix ? addUnitSuffix(br, kinds, outputUnits) : br);
+        }
+      }
+
+      // Material: Exemplar vor Typobjekt (Schichtaufbau hängt oft am Wandtyp)
+      if (materials) {
+        const info = reader.materialOf(id);
+        Object.assign(row, materialColumns(info));
+        for (const part of materialPartRows(info)) {
+          const mr: Record<string, any> = {
+            GlobalId: row['GlobalId'],
+            Name: row['Name'],
+            Storey: row['Storey'],
+            ...part,
+          };
+          convertRowUnits(mr, kinds, outputUnits);
+          if (typeof round === 'number' && mr['LayerThickness'] != null) mr['LayerThickness'] = roundIf(mr['LayerThickness'], round);
+          materialRows.push(unitSuffix ? addUnitSuffix(mr, kinds, outputUnits) : mr);
+        }
+      }
+
+      // DIN 277: Kategorie per Regel, Fläche = NetFloorArea (Qto) vor Geometrie/Area
+      if (din277Rules) {
+        row[DIN277_COLUMN] = classifyDin277({
+          name: toPrimitive(space?.Name),
+          longName: toPrimitive(space?.LongName),
+          objectType: toPrimitive(space?.ObjectType),
+          props: flatProps,
+        }, din277Rules) ?? null;
+        const a = qtoValue(flatProps, ['NetFloorArea', 'GrossFloorArea']) ?? geo?.area ?? Number(row['Area']);
+        row[DIN277_AREA_COLUMN] = isFinite(a) ? a : null;
+      }
+
+      // ------------------------ Extra Parameters anwenden ------------------------
+      // 1) Space.* / Element.* Direktzugriffe
       for (const t of tokens) {
-        if (t.toLowerCase().startsWith('space.')) {
-          const k = t.slice('Space.'.length); // Case beibehalten für Ausgabe
+        if (DIRECT_ATTRIBUTE.test(t)) {
+          const k = t.slice(t.indexOf('.') + 1); // Case beibehalten für Ausgabe
           try {
             const v = toPrimitive((space as any)?.[k]);
-            if (v != null) row[k] = v;
+            if (v != null) {
+              row[k] = v;
+              matchedTokens.add(t);
+            }
           } catch {/* noop */}
         }
       }
 
       // 2) Pset-/Qto-Keys auflösen (mit oder ohne Pset-Angabe)
-      const resolved = resolveExtraKeys(tokens, Object.keys(flatProps));
+      const propKeys = Object.keys(flatProps);
+      const resolved = resolveExtraKeys(tokens, propKeys);
+      for (const t of tokens) {
+        if (!matchedTokens.has(t) && resolveExtraKeys([t], propKeys).length) matchedTokens.add(t);
+      }
       for (const key of resolved) {
         // erzwinge Aufnahme – auch wenn allParams=false (oder Key bereits existiert)
         setIfEmpty(row, key, flatProps[key], true);
       }
       // --------------------------------------------------------------------------
 
+      if (markTypeValues && typeProperties) {
+        const keys = fromType.filter(k => k in row).map(k => renameMap?.[k] ?? k);
+        row['TypeValues'] = keys.length ? keys.join('; ') : null;
+      }
+
+      // Zonen-Summen vor der Einheitenumrechnung (SI); ohne Geometrie aus Qto_SpaceBaseQuantities
+      const memberOf = zoneSummary ? zoneIndex?.byMember.get(id) ?? [] : [];
+      if (memberOf.length) {
+        const area = typeof row['Area'] === 'number' ? row['Area'] : qtoValue(flatProps, ['NetFloorArea', 'GrossFloorArea']);
+        const volume = typeof row['Volume'] === 'number' ? row['Volume'] : qtoValue(flatProps, ['NetVolume', 'GrossVolume']);
+        for (const zid of memberOf) {
+          const t = zoneTotals.get(zid) ?? { count: 0, area: 0, volume: 0 };
+          t.count++;
+          t.area += area ?? 0;
+          t.volume += volume ?? 0;
+          zoneTotals.set(zid, t);
+        }
+      }
+
+      convertRowUnits(row, kinds, outputUnits);
+
       if (typeof round === 'number') {
         for (const [k, v] of Object.entries(row)) {
-          if (v != null && isFinite(Number(v))) row[k] = roundIf(v, round);
+          // nur Zahlen und Mengenspalten – Text wie Raumnummer "01.10" oder Tag "0012" bleibt Text
+          if (typeof v === 'number' || (kinds.has(k) && v != null && typeof v !== 'boolean')) row[k] = roundIf(v, round);
         }
       }
 
       applyRename(row, renameMap);
-      rows.push(row);
+      if (withQuantityKinds) collectColumnKinds(columnKinds, row, kinds, quantityKinds, outputUnits, renameMap, unitSuffix);
+      rows.push(unitSuffix ? addUnitSuffix(row, kinds, outputUnits, renameMap) : row);
     });
 
-    return rows;
+    const zoneRows: Array<Record<string, any>> = [];
+    for (const [zid, t] of zoneTotals) {
+      const z = zoneIndex!.zones.get(zid);
+      const zr: Record<string, any> = {
+        Zone: z?.name,
+        ZoneType: z?.kind,
+        ZoneGlobalId: z?.globalId,
+        Count: t.count,
+        Area: t.area,
+        Volume: t.volume,
+      };
+      convertRowUnits(zr, kinds, outputUnits);
+      if (typeof round === 'number') {
+        zr['Area'] = roundIf(zr['Area'], round);
+        zr['Volume'] = roundIf(zr['Volume'], round);
+      }
+      zoneRows.push(unitSuffix ? addUnitSuffix(zr, kinds, outputUnits) : zr);
+    }
+    zoneRows.sort((a, b) =>
+      String(a.ZoneType ?? '').localeCompare(String(b.ZoneType ?? '')) || String(a.Zone ?? '').localeCompare(String(b.Zone ?? '')));
+
+    if (rows.length) {
+      for (const t of tokens) {
+        if (!matchedTokens.has(t)) warnings.push(`Extra parameter "${t}" not found on any ${typeName}`);
+      }
+    }
+
+    return {
+      schema: reader.schema,
+      rows,
+      boundaries: boundaryRows,
+      zones: zoneRows,
+      materials: materialRows,
+      ...(withQuantityKinds ? { quantityKinds: columnKinds } : {}),
+      warnings,
+    };
   } finally {
-    try { api.CloseModel(modelID); } catch {}
+    reader.release();
   }
 }
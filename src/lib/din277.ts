@@ -0,0 +1,165 @@
+// src/lib/din277.ts
+
+/* ------------------------------ DIN 277 (2016) ------------------------------ */
+/*   Zuordnung der Räume zu Nutzungsflächen NUF 1–7, TF, VF (und KGF) über    */
+/*   konfigurierbare Regeln; Auswertung je Gebäude und Geschoss:              */
+/*   NUF = Σ NUF 1–7, NRF = NUF + TF + VF, BGF = NRF + KGF.                   */
+
+export const DIN277_CATEGORIES = [
+  { value: 'NUF 1', name: 'NUF 1 – Wohnen und Aufenthalt' },
+  { value: 'NUF 2', name: 'NUF 2 – Büroarbeit' },
+  { value: 'NUF 3', name: 'NUF 3 – Produktion, Hand- und Maschinenarbeit, Forschung' },
+  { value: 'NUF 4', name: 'NUF 4 – Lagern, Verteilen und Verkaufen' },
+  { value: 'NUF 5', name: 'NUF 5 – Bildung, Unterricht und Kultur' },
+  { value: 'NUF 6', name: 'NUF 6 – Heilen und Pflegen' },
+  { value: 'NUF 7', name: 'NUF 7 – Sonstige Nutzungen' },
+  { value: 'TF', name: 'TF – Technikfläche' },
+  { value: 'VF', name: 'VF – Verkehrsfläche' },
+  { value: 'KGF', name: 'KGF – Konstruktions-Grundfläche' },
+] as const;
+
+export type Din277Category = typeof DIN277_CATEGORIES[number]['value'];
+export type Din277Source = 'name' | 'longName' | 'objectType' | 'property';
+
+export interface Din277Rule {
+  category: Din277Category;
+  source: Din277Source;
+  property?: string;   // bei source = property, z. B. "Pset_SpaceCommon.Category" oder nur "Category"
+  pattern: string;     // Regex ("/^Büro/i") oder Text – ohne Flags case-insensitive
+}
+
+export interface Din277Fields {
+  name?: any;
+  longName?: any;
+  objectType?: any;
+  props: Record<string, any>;
+}
+
+// Spalten, die runQtoOnIFC bei aktiver Klassifizierung schreibt
+export const DIN277_COLUMN = 'DIN277';
+export const DIN277_AREA_COLUMN = 'DIN277Area';
+
+/* ---- Regeln ---- */
+
+type CompiledRule = Din277Rule & { re: RegExp };
+
+export function compileDin277Rules(rules: Din277Rule[]): CompiledRule[] {
+  const out: CompiledRule[] = [];
+  for (const r of rules) {
+    if (!r?.category || !r.pattern) continue;
+    const m = String(r.pattern).match(/^\/(.*)\/([gimsuy]*)$/);
+    let re: RegExp;
+    try {
+      re = m ? new RegExp(m[1], m[2]) : new RegExp(r.pattern, 'i');
+    } catch {
+      // ungültige Regex → wörtlich vergleichen
+      re = new RegExp(r.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    }
+    out.push({ ...r, re });
+  }
+  return out;
+}
+
+function propertyValue(props: Record<string, any>, name: string | undefined): any {
+  if (!name) return;
+  const lc = name.trim().toLowerCase();
+  const keys = Object.keys(props);
+  const exact = keys.find(k => k.toLowerCase() === lc);
+  if (exact) return props[exact];
+  const suffix = keys.find(k => k.toLowerCase().endsWith('.' + lc));
+  return suffix ? props[suffix] : undefined;
+}
+
+/** Erste passende Regel gewinnt. */
+export function classifyDin277(fields: Din277Fields, rules: CompiledRule[]): Din277Category | undefined {
+  for (const r of rules) {
+    const v =
+      r.source === 'name' ? fields.name :
+      r.source === 'longName' ? fields.longName :
+      r.source === 'objectType' ? fields.objectType :
+      propertyValue(fields.props, r.property);
+    if (v == null || v === '') continue;
+    r.re.lastIndex = 0;
+    if (r.re.test(String(v))) return r.category;
+  }
+}
+
+/* ---- Auswertung ---- */
+
+export interface Din277ReportColumns {
+  category?: string;
+  area?: string;
+  building?: string;
+  storey?: string;
+}
+
+export interface Din277Report {
+  summary: Array<Record<string, any>>;
+  unmapped: Array<Record<string, any>>;
+}
+
+const TOTAL = '(total)';
+const NONE = '(none)';
+
+// Spalte nach Umbenennen / mit Einheiten-Suffix ("DIN277Area [m²]") wiederfinden
+function findColumn(columns: string[], name: string): string {
+  return columns.find(c => c === name) ?? columns.find(c => c.startsWith(name + ' [')) ?? name;
+}
+
+function emptyTotals(): Record<string, number> {
+  const t: Record<string, number> = {};
+  for (const c of DIN277_CATEGORIES) t[c.value] = 0;
+  return t;
+}
+
+function reportRow(building: string, storey: string, t: Record<string, number>): Record<string, any> {
+  const row: Record<string, any> = { Building: building, Storey: storey };
+  let nuf = 0;
+  for (let i = 1; i <= 7; i++) {
+    row[`NUF ${i}`] = t[`NUF ${i}`];
+    nuf += t[`NUF ${i}`];
+  }
+  row['NUF'] = nuf;
+  row['TF'] = t['TF'];
+  row['VF'] = t['VF'];
+  row['NRF'] = nuf + t['TF'] + t['VF'];
+  row['KGF'] = t['KGF'];
+  row['BGF'] = row['NRF'] + t['KGF'];
+  return row;
+}
+
+/** Tabelle je Gebäude/Geschoss inkl. Gebäudesumme + Liste nicht zugeordneter Räume. */
+export function buildDin277Report(rows: Array<Record<string, any>>, cols: Din277ReportColumns = {}): Din277Report {
+  const columns = [...new Set(rows.flatMap(r => Object.keys(r)))];
+  const catCol = findColumn(columns, cols.category ?? DIN277_COLUMN);
+  const areaCol = findColumn(columns, cols.area ?? DIN277_AREA_COLUMN);
+  const buildingCol = findColumn(columns, cols.building ?? 'Building');
+  const storeyCol = findColumn(columns, cols.storey ?? 'Storey');
+
+  const byBuilding = new Map<string, Map<string, Record<string, number>>>();
+  const unmapped: Array<Record<string, any>> = [];
+
+  for (const r of rows) {
+    const cat = r[catCol];
+    if (!cat) { unmapped.push(r); continue; }
+    const b = String(r[buildingCol] ?? NONE);
+    const s = String(r[storeyCol] ?? NONE);
+    if (!byBuilding.has(b)) byBuilding.set(b, new Map());
+    const storeys = byBuilding.get(b)!;
+    if (!storeys.has(s)) storeys.set(s, emptyTotals());
+    const t = storeys.get(s)!;
+    const a = Number(r[areaCol]);
+    if (cat in t && isFinite(a)) t[cat] += a;
+  }
+
+  const summary: Array<Record<string, any>> = [];
+  for (const [b, storeys] of byBuilding) {
+    const total = emptyTotals();
+    for (const [s, t] of storeys) {
+      summary.push(reportRow(b, s, t));
+      for (const k of Object.keys(total)) total[k] += t[k];
+    }
+    summary.push(reportRow(b, TOTAL, total));
+  }
+  return { summary, unmapped };
+}
@@ -0,0 +1,120 @@
+// src/lib/element-quantities.ts
+
+import type { QuantityKind } from './units';
+
+/* --------------------------- Element-QTO je IFC-Klasse ---------------------- */
+/*   Standardspalten für Bauteile (Wände, Decken, Stützen …). Werte kommen     */
+/*   primär aus Qto_<Klasse>BaseQuantities, Geometrie nur als Fallback.       */
+/*   Alle Geometriewerte in SI (m, m², m³).                                   */
+
+export interface ElementGeometry {
+  area?: number;            // Grundfläche (Solid-Unterseite / FootPrint)
+  volume?: number;
+  base?: number;
+  top?: number;
+  perimeter?: number;
+  axisLength?: number;      // Länge der Achse ("Axis"-Representation)
+  depth?: number;           // Extrusionslänge des Body-Solids
+  profileArea?: number;     // Querschnitt (SweptArea)
+  profilePerimeter?: number;
+  overallWidth?: number;    // IfcDoor / IfcWindow
+  overallHeight?: number;
+}
+
+export interface ElementQuantityColumn {
+  column: string;            // Spaltenname = Mengenname im Qto-Set
+  kind: QuantityKind;
+  qto?: string[];            // alternative Mengennamen (Default: column)
+  geometry?: (g: ElementGeometry) => number | undefined;
+}
+
+export interface ElementClass {
+  label: string;             // Anzeigename, z. B. "IfcWall"
+  qtoSet?: string;           // bevorzugtes Qto-Set
+  columns: ElementQuantityColumn[];
+}
+
+/* ---- Geometrie-Helfer ---- */
+
+const pos = (v: number | undefined) => (v != null && isFinite(v) && v > 0 ? v : undefined);
+
+function height(g: ElementGeometry) {
+  return g.top != null && g.base != null ? pos(g.top - g.base) : undefined;
+}
+
+function product(a: number | undefined, b: number | undefined) {
+  return a != null && b != null ? pos(a * b) : undefined;
+}
+
+const COLUMN_SET: ElementQuantityColumn[] = [
+  { column: 'Length', kind: 'length', geometry: g => pos(g.depth) },
+  { column: 'CrossSectionArea', kind: 'area', geometry: g => pos(g.profileArea) },
+  { column: 'OuterSurfaceArea', kind: 'area', geometry: g => product(g.profilePerimeter, g.depth) },
+  { column: 'GrossVolume', kind: 'volume', geometry: g => pos(g.volume) },
+  { column: 'NetVolume', kind: 'volume' },
+];
+
+const OPENING_SET: ElementQuantityColumn[] = [
+  { column: 'Width', kind: 'length', geometry: g => pos(g.overallWidth) },
+  { column: 'Height', kind: 'length', geometry: g => pos(g.overallHeight) },
+  { column: 'Perimeter', kind: 'length', geometry: g => {
+    const w = pos(g.overallWidth), h = pos(g.overallHeight);
+    return w != null && h != null ? 2 * (w + h) : undefined;
+  } },
+  { column: 'Area', kind: 'area', geometry: g => product(g.overallWidth, g.overallHeight) },
+];
+
+// Schlüssel = web-ifc-Konstante der Basisklasse; Subtypen (…STANDARDCASE) werden darauf abgebildet
+export const ELEMENT_CLASSES: Record<string, ElementClass> = {
+  IFCWALL: {
+    label: 'IfcWall',
+    qtoSet: 'Qto_WallBaseQuantities',
+    columns: [
+      { column: 'Length', kind: 'length', geometry: g => pos(g.axisLength) },
+      { column: 'Width', kind: 'length', geometry: g => (g.axisLength ? pos((g.area ?? 0) / g.axisLength) : undefined) },
+      { column: 'Height', kind: 'length', geometry: height },
+      { column: 'GrossSideArea', kind: 'area', geometry: g => product(g.axisLength, height(g)) },
+      { column: 'NetSideArea', kind: 'area' },
+      { column: 'GrossVolume', kind: 'volume', geometry: g => pos(g.volume) },
+      { column: 'NetVolume', kind: 'volume' },
+    ],
+  },
+  IFCSLAB: {
+    label: 'IfcSlab',
+    qtoSet: 'Qto_SlabBaseQuantities',
+    columns: [
+      { column: 'Width', kind: 'length', geometry: height }, // Dicke
+      { column: 'Perimeter', kind: 'length', geometry: g => pos(g.perimeter) },
+      { column: 'GrossArea', kind: 'area', geometry: g => pos(g.area) },
+      { column: 'NetArea', kind: 'area' },
+      { column: 'GrossVolume', kind: 'volume', geometry: g => pos(g.volume) },
+      { column: 'NetVolume', kind: 'volume' },
+    ],
+  },
+  IFCCOLUMN: { label: 'IfcColumn', qtoSet: 'Qto_ColumnBaseQuantities', columns: COLUMN_SET },
+  IFCBEAM: { label: 'IfcBeam', qtoSet: 'Qto_BeamBaseQuantities', columns: COLUMN_SET },
+  IFCDOOR: { label: 'IfcDoor', qtoSet: 'Qto_DoorBaseQuantities', columns: OPENING_SET },
+  IFCWINDOW: { label: 'IfcWindow', qtoSet: 'Qto_WindowBaseQuantities', columns: OPENING_SET },
+  IFCCOVERING: {
+    label: 'IfcCovering',
+    qtoSet: 'Qto_CoveringBaseQuantities',
+    columns: [
+      { column: 'Width', kind: 'length' }, // Dicke – nur aus Qto
+      { column: 'GrossArea', kind: 'area', geometry: g => pos(g.area) },
+      { column: 'NetArea', kind: 'area' },
+    ],
+  },
+};
+
+// Andere Klassen: generische Mengen aus beliebigem Qto-Set
+const GENERIC_COLUMNS: ElementQuantityColumn[] = [
+  { column: 'Area', kind: 'area', qto: ['GrossArea', 'NetArea', 'Area'], geometry: g => pos(g.area) },
+  { column: 'Volume', kind: 'volume', qto: ['GrossVolume', 'NetVolume', 'Volume'], geometry: g => pos(g.volume) },
+];
+
+/** "IfcWallStandardCase" / "IFCWALLSTANDARDCASE" → Spaltendefinition der Basisklasse. */
+export function elementClassFor(typeName: string): ElementClass {
+  const t = typeName.toUpperCase();
+  const base = t.replace(/(STANDARDCASE|ELEMENTEDCASE)$/, '');
+  return ELEMENT_CLASSES[t] ?? ELEMENT_CLASSES[base] ?? { label: typeName, columns: GENERIC_COLUMNS };
+}
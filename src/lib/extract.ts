@@ -1,12 +1,13 @@
 // src/lib/extract.ts
 import {
-  IFCRELDEFINESBYPROPERTIES,
-  IFCPROPERTYSET,
-  IFCELEMENTQUANTITY,
+  IFCPROPERTYENUMERATEDVALUE,
+  IFCPROPERTYLISTVALUE,
+  IFCPROPERTYBOUNDEDVALUE,
+  IFCPROPERTYTABLEVALUE,
+  IFCPROPERTYREFERENCEVALUE,
+  IFCCOMPLEXPROPERTY,
 } from 'web-ifc';
-
-type LineGetter = (modelID: number, id: number) => any;
-type VecGetter = (modelID: number, type: number) => any;
+import { type OutputUnits, type ProjectUnits, type QuantityKind, fromSI } from './units';
 
 export function toPrimitive(val: any): any {
   let v = val;
@@ -15,7 +16,7 @@ export function toPrimitive(val: any): any {
   return v;
 }
 
-function forEachIdVector(vec: any, cb: (id: number) => void) {
+export function forEachIdVector(vec: any, cb: (id: number) => void) {
   const size =
     typeof vec?.size === 'function' ? vec.size()
     : Array.isArray(vec) ? vec.length
@@ -26,94 +27,174 @@ function forEachIdVector(vec: any, cb: (id: number) => void) {
   }
 }
 
-export function buildRelDefinesIndex(api: any, modelID: number) {
-  const byRelated = new Map<number, any[]>();
-  const vec = api.GetLineIDsWithType(modelID, IFCRELDEFINESBYPROPERTIES);
-  forEachIdVector(vec, (relId) => {
-    const rel = api.GetLine(modelID, relId);
-    const related = rel?.RelatedObjects ?? [];
-    const defId = rel?.RelatingPropertyDefinition?.value;
-    if (!defId || !Array.isArray(related)) return;
-    const defLine = api.GetLine(modelID, defId);
-    for (const ro of related) {
-      const rid = ro?.value; if (!rid) continue;
-      if (!byRelated.has(rid)) byRelated.set(rid, []);
-      byRelated.get(rid)!.push(defLine);
-    }
-  });
-  return byRelated;
+/* ---- IfcProperty → flache Werte ---- */
+/*   SingleValue → Wert, Enumerated/List → "a; b", Bounded → .Min/.Max/    */
+/*   .SetPoint, Table → "x=y; …", Reference → Name des Ziels,             */
+/*   ComplexProperty → Untereigenschaften als "<Name>.<Sub>".             */
+
+export const LIST_SEPARATOR = '; ';
+
+export interface FlatProperty {
+  key: string;
+  value: any;
+  measure?: string; // IFC-Messwerttyp (z. B. IFCLENGTHMEASURE) der Zahlwerte
+  unit?: any;       // Unit-Referenz der Eigenschaft
 }
 
-export function extractPsetProps(api: any, modelID: number, psetLine: any) {
-  const out: Record<string, any> = {};
-  const pName = toPrimitive(psetLine?.Name) ?? 'Pset';
-  const props = psetLine?.HasProperties ?? [];
-  for (const p of props) {
-    const pid = p?.value; if (!pid) continue;
-    const pl = api.GetLine(modelID, pid);
-    const nm = toPrimitive(pl?.Name);
-    if (!nm) continue;
-    const val = toPrimitive(pl?.NominalValue ?? pl?.NominalValue?.value ?? pl?.value);
-    out[`${pName}.${nm}`] = val;
-  }
-  return out;
+// Umrechnung einzelner Zahlwerte (z. B. Projekteinheit → SI) vor dem Verbinden
+export type MeasureScale = (value: number, measure: string | undefined, unit: any) => number;
+
+function measureOf(v: any): string | undefined {
+  return v && typeof v === 'object' && typeof v.name === 'string' ? v.name : undefined;
+}
+
+function scaledValue(v: any, unit: any, scale?: MeasureScale): any {
+  const p = toPrimitive(v);
+  return scale && typeof p === 'number' ? scale(p, measureOf(v), unit) : p;
 }
 
-export function extractQuantities(api: any, modelID: number, qtoLine: any) {
-  const out: Record<string, any> = {};
-  const qName = toPrimitive(qtoLine?.Name) ?? 'Qto';
-  const quants = qtoLine?.Quantities ?? [];
-  for (const q of quants) {
-    const qid = q?.value; if (!qid) continue;
-    const ql = api.GetLine(modelID, qid);
-    const nm = toPrimitive(ql?.Name);
-    const area = toPrimitive(ql?.AreaValue);
-    const vol  = toPrimitive(ql?.VolumeValue);
-    const len  = toPrimitive(ql?.LengthValue ?? ql?.PerimeterValue);
-    if (!nm) continue;
-    if (area != null) out[`${qName}.${nm}`] = area;
-    else if (vol != null) out[`${qName}.${nm}`] = vol;
-    else if (len != null) out[`${qName}.${nm}`] = len;
+function joinValues(values: any[]): any {
+  const vals = values.filter(v => v != null && v !== '');
+  return vals.length <= 1 ? vals[0] : vals.map(String).join(LIST_SEPARATOR);
+}
+
+function referenceLabel(api: any, modelID: number, ref: any): any {
+  const line = ref?.value ? api.GetLine(modelID, ref.value) : null;
+  if (!line) return;
+  // IfcMaterial, IfcPerson, IfcOrganization, IfcTable, IfcClassificationReference …
+  return toPrimitive(line?.Name)
+    ?? toPrimitive(line?.Identification)
+    ?? toPrimitive(line?.ItemReference)
+    ?? toPrimitive(line?.FamilyName)
+    ?? toPrimitive(line?.Location)
+    ?? `#${ref.value}`;
+}
+
+// Rundungsrauschen des Umwegs über SI entfernen: 0.35 m → 350 mm, nicht 349.99999999999994
+function cleanFromSI(v: number, kind: QuantityKind, out?: OutputUnits): number {
+  return Number(fromSI(v, kind, out).toPrecision(15));
+}
+
+/** SI → Ausgabeeinheit; Listenwerte ("2.5; 3") je Eintrag. */
+export function valueFromSI(v: any, kind: QuantityKind, out?: OutputUnits): any {
+  if (typeof v === 'number') return cleanFromSI(v, kind, out);
+  if (typeof v === 'string' && v.includes(LIST_SEPARATOR)) {
+    return v.split(LIST_SEPARATOR).map(x => (x !== '' && isFinite(Number(x)) ? cleanFromSI(Number(x), kind, out) : x)).join(LIST_SEPARATOR);
   }
-  return out;
+  return v;
 }
 
-export function extractAllForElement(
+export function flattenProperty(
   api: any,
   modelID: number,
-  elemId: number,
-  includeCoreAttrs = true,
-  mode: 'wide'|'long' = 'wide',
-) {
-  const el = api.GetLine(modelID, elemId);
-  const cls = el?.__proto__?.constructor?.name || el?.constructor?.name || 'IfcElement';
-  const base = {
-    GlobalId: toPrimitive(el?.GlobalId),
-    Class: cls,
-    Name: toPrimitive(el?.Name),
-    Description: toPrimitive(el?.Description),
-    Tag: toPrimitive(el?.Tag),
-  };
-
-  // Psets + Qto
-  const byRelated = buildRelDefinesIndex(api, modelID);
-  const defs = byRelated.get(elemId) ?? [];
-
-  const bag: Record<string, any> = {};
-  for (const def of defs) {
-    if (def?.type === IFCPROPERTYSET) Object.assign(bag, extractPsetProps(api, modelID, def));
-    else if (def?.type === IFCELEMENTQUANTITY) Object.assign(bag, extractQuantities(api, modelID, def));
-  }
+  pl: any,
+  key: string,
+  scale?: MeasureScale,
+  depth = 0,
+): FlatProperty[] {
+  if (!pl || depth > 8) return [];
+  const unit = pl?.Unit;
 
-  if (mode === 'wide') {
-    return [{ ...base, ...(includeCoreAttrs ? {} : { GlobalId: base.GlobalId, Class: base.Class }), ...bag }];
+  switch (pl?.type) {
+    case IFCCOMPLEXPROPERTY: {
+      const out: FlatProperty[] = [];
+      for (const p of pl?.HasProperties ?? []) {
+        const sub = p?.value ? api.GetLine(modelID, p.value) : null;
+        const nm = toPrimitive(sub?.Name);
+        if (nm) out.push(...flattenProperty(api, modelID, sub, `${key}.${nm}`, scale, depth + 1));
+      }
+      return out;
+    }
+    case IFCPROPERTYENUMERATEDVALUE:
+    case IFCPROPERTYLISTVALUE: {
+      const list: any[] = (pl?.type === IFCPROPERTYLISTVALUE ? pl?.ListValues : pl?.EnumerationValues) ?? [];
+      const measure = list.map(measureOf).find(Boolean);
+      return [{ key, value: joinValues(list.map(v => scaledValue(v, unit, scale))), measure, unit }];
+    }
+    case IFCPROPERTYBOUNDEDVALUE: {
+      const out: FlatProperty[] = [];
+      const bounds: Array<[string, any]> = [['Min', pl?.LowerBoundValue], ['Max', pl?.UpperBoundValue], ['SetPoint', pl?.SetPointValue]];
+      for (const [suffix, v] of bounds) {
+        if (v == null) continue;
+        out.push({ key: `${key}.${suffix}`, value: scaledValue(v, unit, scale), measure: measureOf(v), unit });
+      }
+      return out;
+    }
+    case IFCPROPERTYTABLEVALUE: {
+      const defining: any[] = pl?.DefiningValues ?? [];
+      const defined: any[] = pl?.DefinedValues ?? [];
+      const pairs = defining.map((d, i) =>
+        `${scaledValue(d, pl?.DefiningUnit, scale)}=${scaledValue(defined[i], pl?.DefinedUnit, scale) ?? ''}`);
+      return [{ key, value: pairs.length ? pairs.join(LIST_SEPARATOR) : undefined }];
+    }
+    case IFCPROPERTYREFERENCEVALUE:
+      return [{ key, value: referenceLabel(api, modelID, pl?.PropertyReference) }];
   }
 
-  // long/tidy: eine Zeile pro Key
-  const rows: Array<Record<string, any>> = [];
-  const core = includeCoreAttrs ? base : { GlobalId: base.GlobalId, Class: base.Class };
-  Object.entries(bag).forEach(([key, value]) => {
-    rows.push({ ...core, Key: key, Value: value });
-  });
-  return rows;
+  // IfcPropertySingleValue (und Unbekanntes mit NominalValue)
+  const nominal = pl?.NominalValue ?? pl?.value;
+  return [{ key, value: scaledValue(nominal, unit, scale), measure: measureOf(pl?.NominalValue), unit }];
+}
+
+/* ---- IfcPhysicalQuantity → flache Werte ---- */
+/*   Length/Area/Volume/Count/Weight/Time (+ IFC4x3 Number); komplexe       */
+/*   Mengen (IfcPhysicalComplexQuantity) als "<Name>.<Sub>".                */
+
+export type PhysicalQuantityKind = 'length' | 'area' | 'volume' | 'count' | 'weight' | 'time' | 'number';
+
+export interface FlatQuantity {
+  key: string;
+  value: any;
+  kind: PhysicalQuantityKind;
+  unit?: any; // eigene Unit-Referenz der Menge
+}
+
+// Wertattribut je Mengentyp; PerimeterValue ist kein Schema-Attribut, kommt aber in Exporten vor
+const QUANTITY_VALUES: Array<[string, PhysicalQuantityKind]> = [
+  ['AreaValue', 'area'],
+  ['VolumeValue', 'volume'],
+  ['LengthValue', 'length'],
+  ['PerimeterValue', 'length'],
+  ['CountValue', 'count'],
+  ['WeightValue', 'weight'],
+  ['TimeValue', 'time'],
+  ['NumberValue', 'number'],
+];
+
+// Projekteinheit je Mengenart (Count/Number sind einheitenlos)
+export const UNIT_KIND_BY_QUANTITY: Partial<Record<PhysicalQuantityKind, keyof ProjectUnits>> = {
+  length: 'length',
+  area: 'area',
+  volume: 'volume',
+  weight: 'mass',
+  time: 'time',
+};
+
+export type QuantityScale = (value: number, kind: PhysicalQuantityKind, unit: any) => number;
+
+export function flattenQuantity(
+  api: any,
+  modelID: number,
+  ql: any,
+  key: string,
+  scale?: QuantityScale,
+  depth = 0,
+): FlatQuantity[] {
+  if (!ql || depth > 8) return [];
+  if (Array.isArray(ql?.HasQuantities)) {
+    const out: FlatQuantity[] = [];
+    for (const q of ql.HasQuantities) {
+      const sub = q?.value ? api.GetLine(modelID, q.value) : null;
+      const nm = toPrimitive(sub?.Name);
+      if (nm) out.push(...flattenQuantity(api, modelID, sub, `${key}.${nm}`, scale, depth + 1));
+    }
+    return out;
+  }
+  for (const [attr, kind] of QUANTITY_VALUES) {
+    const v = toPrimitive(ql?.[attr]);
+    if (v == null) continue;
+    const value = scale && typeof v === 'number' ? scale(v, kind, ql?.Unit) : v;
+    return [{ key, value, kind, unit: ql?.Unit }];
+  }
+  return [];
 }
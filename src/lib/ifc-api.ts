@@ -0,0 +1,200 @@
+// src/lib/ifc-api.ts
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IfcAPI, type LoaderSettings } from 'web-ifc';
+
+/* ------------------------------ web-ifc Lebenszyklus ------------------------ */
+/*   Ein IfcAPI je Prozess, initialisiert mit der gebündelten wasm aus        */
+/*   dist/wasm (scripts/copy-wasm.cjs). Geöffnete Modelle werden über den     */
+/*   Inhalts-Hash (+ OpenModel-Settings) zwischengespeichert, samt der daraus */
+/*   gebauten Indizes – Explorer → QTO → Attribute Export parsen eine Datei   */
+/*   so nur einmal. Es ist immer höchstens ein Modell offen: wer ein anderes  */
+/*   Modell braucht, wartet, bis das benutzte freigegeben ist.                */
+
+export interface OpenModelSettings {
+  coordinateToOrigin?: boolean; // COORDINATE_TO_ORIGIN – Geometrie um den Ursprung
+  circleSegments?: number;      // CIRCLE_SEGMENTS – Auflösung von Kreisen/Bögen
+  optimizeProfiles?: boolean;   // OPTIMIZE_PROFILES
+  memoryLimit?: number;         // MEMORY_LIMIT (Bytes)
+}
+
+export interface ModelHandle {
+  api: IfcAPI;
+  modelID: number;
+  hash: string;
+  /** Index einmal je Modell bauen; key muss alle Varianten unterscheiden (z. B. Einheiten). */
+  index<T>(key: string, build: () => T): T;
+  /** Modell zurückgeben – geschlossen wird erst beim Verdrängen aus dem Cache. */
+  release(): void;
+}
+
+interface CacheEntry {
+  key: string;
+  hash: string;
+  modelID: number;
+  refs: number;
+  lastUsed: number;
+  indices: Map<string, unknown>;
+}
+
+// Große Modelle belegen mehrere 100 MB im wasm-Heap. Außerdem hängt web-ifc 0.0.51
+// in OpenModel, wenn zuvor ein Modell geschlossen wurde, während ein anderes offen
+// blieb – daher nur das zuletzt benutzte Modell halten und vor dem nächsten schließen
+// (parallele Items mit anderen Modellen warten in acquireSlot).
+const MAX_CACHED_MODELS = 1;
+const IDLE_CLOSE_MS = 10 * 60 * 1000;
+
+const WASM_DIR = path.join(__dirname, '..', 'wasm');
+
+let apiPromise: Promise<IfcAPI> | undefined;
+const cache = new Map<string, CacheEntry>();
+let idleTimer: NodeJS.Timeout | undefined;
+const waiting: Array<() => void> = [];
+
+/** Gemeinsames IfcAPI; ohne gebündelte wasm (Entwicklung) greift die Auflösung von web-ifc. */
+export function getIfcApi(): Promise<IfcAPI> {
+  if (!apiPromise) {
+    apiPromise = (async () => {
+      const api = new IfcAPI();
+      // Node-Build von web-ifc lädt web-ifc-node.wasm
+      if (fs.existsSync(path.join(WASM_DIR, 'web-ifc-node.wasm'))) {
+        api.SetWasmPath(WASM_DIR + path.sep, true);
+      }
+      await api.Init();
+      return api;
+    })();
+    // fehlgeschlagene Initialisierung nicht dauerhaft merken
+    apiPromise.catch(() => { apiPromise = undefined; });
+  }
+  return apiPromise;
+}
+
+// nur Abweichungen von den web-ifc-Standards setzen, damit gleiche Modelle denselben Cache-Key bekommen
+export function loaderSettings(s: OpenModelSettings = {}): LoaderSettings {
+  const out: LoaderSettings = {};
+  if (s.coordinateToOrigin) out.COORDINATE_TO_ORIGIN = true;
+  if (s.circleSegments != null && s.circleSegments > 0 && Math.round(s.circleSegments) !== 12) {
+    out.CIRCLE_SEGMENTS = Math.round(s.circleSegments);
+  }
+  if (s.optimizeProfiles) out.OPTIMIZE_PROFILES = true;
+  if (s.memoryLimit != null && s.memoryLimit > 0) out.MEMORY_LIMIT = s.memoryLimit;
+  return out;
+}
+
+export function contentHash(buffer: Uint8Array): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+function closeEntry(api: IfcAPI, e: CacheEntry) {
+  cache.delete(e.key);
+  try { api.CloseModel(e.modelID); } catch {}
+}
+
+// nicht benutzte Modelle verdrängen: älteste zuerst, bis Platz für eines mehr ist
+function evict(api: IfcAPI, keep: number) {
+  const idle = [...cache.values()].filter(e => e.refs === 0).sort((a, b) => a.lastUsed - b.lastUsed);
+  while (cache.size > keep && idle.length) closeEntry(api, idle.shift()!);
+}
+
+// ein anderes Modell ist noch in Benutzung → erst nach dessen release() öffnen
+function busyWithOther(key: string): boolean {
+  for (const e of cache.values()) if (e.refs > 0 && e.key !== key) return true;
+  return false;
+}
+
+async function acquireSlot(key: string): Promise<void> {
+  while (busyWithOther(key)) await new Promise<void>(resolve => waiting.push(resolve));
+}
+
+function wakeWaiting() {
+  for (const resolve of waiting.splice(0)) resolve();
+}
+
+function scheduleIdleClose(api: IfcAPI) {
+  if (idleTimer) clearTimeout(idleTimer);
+  if (!cache.size) return;
+  idleTimer = setTimeout(() => {
+    const now = Date.now();
+    for (const e of [...cache.values()]) {
+      if (e.refs === 0 && now - e.lastUsed >= IDLE_CLOSE_MS) closeEntry(api, e);
+    }
+    scheduleIdleClose(api);
+  }, IDLE_CLOSE_MS);
+  idleTimer.unref?.();
+}
+
+/** Modell öffnen oder aus dem Cache holen; Aufrufer muss release() aufrufen (finally). */
+export async function openModel(buffer: Uint8Array, settings: OpenModelSettings = {}): Promise<ModelHandle> {
+  const ls = loaderSettings(settings);
+  const hash = contentHash(buffer);
+  const key = `${hash}:${JSON.stringify(ls)}`;
+  let api: IfcAPI;
+  do {
+    await acquireSlot(key);
+    api = await getIfcApi();
+  } while (busyWithOther(key));
+
+  // ab hier synchron bis refs++, damit kein zweites Modell dazwischen geöffnet wird
+  let entry = cache.get(key);
+  if (entry && !api.IsModelOpen(entry.modelID)) {
+    cache.delete(key);
+    entry = undefined;
+  }
+  if (!entry) {
+    evict(api, MAX_CACHED_MODELS - 1);
+    let modelID: number;
+    try {
+      modelID = api.OpenModel(buffer, ls);
+    } catch (e) {
+      // defekte Datei: wasm-Heap ist danach unbrauchbar, nächstes Modell mit frischem IfcAPI
+      resetIfcApi();
+      throw e;
+    }
+    entry = { key, hash, modelID, refs: 0, lastUsed: Date.now(), indices: new Map() };
+    cache.set(key, entry);
+  }
+
+  const e = entry;
+  e.refs++;
+  e.lastUsed = Date.now();
+  let released = false;
+
+  return {
+    api,
+    modelID: e.modelID,
+    hash,
+    index<T>(name: string, build: () => T): T {
+      if (!e.indices.has(name)) e.indices.set(name, build());
+      return e.indices.get(name) as T;
+    },
+    release() {
+      if (released) return;
+      released = true;
+      e.refs = Math.max(0, e.refs - 1);
+      e.lastUsed = Date.now();
+      evict(api, MAX_CACHED_MODELS);
+      scheduleIdleClose(api);
+      if (e.refs === 0) wakeWaiting();
+    },
+  };
+}
+
+/** IfcAPI verwerfen (ohne CloseModel – der wasm-Heap ist nach einem Abbruch nicht mehr nutzbar). */
+export function resetIfcApi(): void {
+  apiPromise = undefined;
+  cache.clear();
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = undefined;
+  wakeWaiting();
+}
+
+/** Alle zwischengespeicherten Modelle schließen (z. B. nach Fehlern im wasm-Heap). */
+export async function clearModelCache(): Promise<void> {
+  if (!apiPromise) return;
+  const api = await apiPromise;
+  for (const e of [...cache.values()]) closeEntry(api, e);
+  if (idleTimer) clearTimeout(idleTimer);
+  idleTimer = undefined;
+}
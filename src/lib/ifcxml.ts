@@ -0,0 +1,478 @@
+// src/lib/ifcxml.ts
+
+import { StringDecoder } from 'string_decoder';
+import { SaxesParser, type SaxesTagPlain } from 'saxes';
+import * as WEBIFC from 'web-ifc';
+
+/* ---------------------------------- ifcXML ---------------------------------- */
+/*   ifcXML (ISO 10303-28; IFC2x3 ifcXML2 und IFC4/IFC4x3) wird in STEP       */
+/*   (ISO 10303-21) umgeschrieben und dann wie jede .ifc von web-ifc          */
+/*   geöffnet – Reader, Geometrie und Modell-Cache bleiben dieselben.        */
+/*   Attributreihenfolge und -typen liefern die generierten Schema-Tabellen  */
+/*   von web-ifc (FromRawLineData). Eingabe und STEP-Ausgabe liegen komplett */
+/*   im Speicher; nur der XML-Parser bekommt die Datei in 1-MB-Stücken.      */
+
+const W = WEBIFC as any;
+
+// Tape-Typen von web-ifc (STRING, LABEL, ENUM, REAL, REF, INTEGER)
+const TAPE_STRING = 1;
+const TAPE_LABEL = 2;
+const TAPE_ENUM = 3;
+const TAPE_REAL = 4;
+const TAPE_INTEGER = 10;
+
+const CHUNK = 1 << 20;
+
+// ifcXML4 schreibt LIST OF LIST einfacher Werte flach ("x y z x y z …") –
+// Länge der inneren Listen je Attribut (Entität.Attribut vor Attribut)
+const NESTED_LIST_SIZE: Record<string, number> = {
+  'IFCCARTESIANPOINTLIST2D.CoordList': 2,
+  CoordList: 3,
+  CoordIndex: 3,
+  Normals: 3,
+  TexCoordsList: 2,
+  TexCoordIndex: 3,
+};
+
+type AttrKind =
+  | { kind: 'ref' }
+  | { kind: 'value'; tape: number }   // definierter Typ: IfcLabel, IfcLengthMeasure …
+  | { kind: 'select' }                // Referenz oder getypter Wert (IfcValue …)
+  | { kind: 'enum' }                  // Aufzählung, LOGICAL/BOOLEAN ohne eigenen Typ
+  | { kind: 'derived' }               // abgeleitet (IfcSIUnit.Dimensions …) → *
+  | { kind: 'list'; of: AttrKind };
+
+interface EntitySchema {
+  name: string;                       // "IFCWALL"
+  attributes: string[];               // direkte Attribute in STEP-Reihenfolge
+  kinds: AttrKind[];
+}
+
+type XmlValue =
+  | { ref: number }
+  | { typed: string; text: string }
+  | { text: string }
+  | { list: XmlValue[] };
+
+interface EntityFrame {
+  t: 'entity';
+  id: number;
+  code: number;
+  schema?: EntitySchema;
+  attrs: Map<string, XmlValue>;
+  asAttr?: string;                    // Attribut-Element mit xsi:type = Entität selbst
+  inverse?: { attribute: string; ref: number };
+}
+
+interface AttrFrame {
+  t: 'attr';
+  name: string;
+  owner: EntityFrame;
+  values: XmlValue[];
+  text: string;
+  inverse?: any[];                    // [Name, Zieltyp, Attributindex, Menge]
+}
+
+interface TypedFrame { t: 'typed'; name: string; text: string }
+interface SkipFrame { t: 'skip' }
+
+type Frame = EntityFrame | AttrFrame | TypedFrame | SkipFrame;
+
+/* ---- Schema aus web-ifc ---- */
+/*   ToRawLineData (Schreiben) liefert die STEP-Reihenfolge der Attribute,   */
+/*   FromRawLineData (Lesen) mit Platzhaltern deren Art: Handle → Referenz,  */
+/*   IfcLabel/IfcLengthMeasure … → Wert, unverändert → Aufzählung.           */
+/*   Das sind undokumentierte Interna von web-ifc (wie TypeInitialisers) –   */
+/*   web-ifc ist deshalb in package.json exakt gepinnt; checkWebIfc prüft    */
+/*   die Sonden beim Laden gegen bekannte Entitäten.                         */
+
+const PROBE = Symbol('probe');
+const SELECTED = Symbol('select');
+
+function makeProbe(): any {
+  const p: any = { [PROBE]: true, value: { [SELECTED]: true }, type: 0 };
+  p.map = (fn: (item: any) => any) => {
+    p.of = classify(fn(makeProbe()));
+    const out: any = [];
+    out[PROBE] = p;
+    return out;
+  };
+  return p;
+}
+
+function classify(v: any): AttrKind {
+  if (Array.isArray(v)) return { kind: 'list', of: v[PROBE as any]?.of ?? { kind: 'select' } };
+  if (v?.[PROBE]) return { kind: 'enum' };
+  if (v?.[SELECTED]) return { kind: 'select' };      // TypeInitialiser ohne typecode
+  if (v instanceof W.Handle) return v.value?.[SELECTED] ? { kind: 'ref' } : { kind: 'derived' };
+  if (v && typeof v.type === 'number') return { kind: 'value', tape: v.type };
+  return { kind: 'derived' };
+}
+
+const RECORDED = { value: true, label: 'probe', type: 0, map: () => [] };
+
+const schemaCache = new Map<string, EntitySchema | undefined>();
+
+function entitySchema(schema: number, code: number): EntitySchema | undefined {
+  const key = `${schema}:${code}`;
+  if (schemaCache.has(key)) return schemaCache.get(key);
+
+  let out: EntitySchema | undefined;
+  const toRaw = W.ToRawLineData?.[schema]?.[code];
+  const fromRaw = W.FromRawLineData?.[schema]?.[code];
+  if (typeof toRaw === 'function' && typeof fromRaw === 'function') {
+    try {
+      const attributes: string[] = [];
+      toRaw(new Proxy({}, {
+        get(_t, k) {
+          if (typeof k === 'string' && !attributes.includes(k)) attributes.push(k);
+          return RECORDED;
+        },
+      }));
+      const probes: any[] = [];
+      const line = fromRaw(new Proxy([], {
+        get(target, k) {
+          if (typeof k === 'string' && /^\d+$/.test(k)) {
+            const n = Number(k);
+            while (probes.length <= n) probes.push(makeProbe());
+            return probes[n];
+          }
+          return (target as any)[k];
+        },
+      }));
+      out = {
+        name: TYPE_NAME.get(code) ?? String(line.constructor?.name ?? '').toUpperCase(),
+        attributes,
+        kinds: attributes.map(a => classify(line[a])),
+      };
+    } catch {}
+  }
+  schemaCache.set(key, out);
+  return out;
+}
+
+const TYPE_CODE = new Map<string, number>(
+  Object.entries(WEBIFC)
+    .filter(([k, v]) => k.startsWith('IFC') && typeof v === 'number')
+    .map(([k, v]) => [k, v as number]),
+);
+const TYPE_NAME = new Map<number, string>([...TYPE_CODE].map(([k, v]) => [v, k]));
+
+function typeCode(name: string | undefined): number | undefined {
+  return name ? TYPE_CODE.get(name.toUpperCase()) : undefined;
+}
+
+function tapeOf(schema: number, name: string): number {
+  const init = W.TypeInitialisers?.[schema]?.[typeCode(name) ?? -1];
+  try { return init ? init(null)?.type ?? TAPE_STRING : TAPE_STRING; } catch { return TAPE_STRING; }
+}
+
+// Namensraum / Header → web-ifc Schema-Index (1 = IFC2X3, 2 = IFC4, 3 = IFC4X3)
+function detectSchema(head: string): { index: number; name: string } {
+  const name = /IFC2X3/i.test(head) ? 'IFC2X3' : /IFC4X3|IFC4_3/i.test(head) ? 'IFC4X3' : 'IFC4';
+  const names: string[][] = W.SchemaNames ?? [];
+  const index = names.findIndex(n => Array.isArray(n) && n.includes(name));
+  return { index: index > 0 ? index : 2, name };
+}
+
+// Sonden gegen bekannte Entitäten je Schema: passt die Struktur nicht, würde falsches STEP entstehen
+function checkWebIfc(): string | undefined {
+  const signature = (e: EntitySchema | undefined) =>
+    e && `${e.attributes.join(',')}|${e.kinds.map(k => (k.kind === 'list' ? `list<${k.of.kind}>` : k.kind)).join(',')}`;
+  for (const name of ['IFC2X3', 'IFC4', 'IFC4X3']) {
+    const { index } = detectSchema(name);
+    const rel = signature(entitySchema(index, W.IFCRELAGGREGATES));
+    const point = signature(entitySchema(index, W.IFCCARTESIANPOINT));
+    if (
+      rel !== 'GlobalId,OwnerHistory,Name,Description,RelatingObject,RelatedObjects|value,ref,value,value,ref,list<ref>'
+      || point !== 'Coordinates|list<value>'
+      || tapeOf(index, 'IfcLengthMeasure') !== TAPE_REAL
+    ) {
+      return `ifcXML: unsupported web-ifc version (schema tables for ${name} do not match web-ifc 0.0.51)`;
+    }
+  }
+}
+
+const WEB_IFC_ERROR = checkWebIfc();
+
+/* ---- STEP-Literale ---- */
+
+function local(name: string | undefined): string {
+  const n = name ?? '';
+  return n.slice(n.indexOf(':') + 1);
+}
+
+// ISO 10303-21: ' verdoppeln, \ maskieren, Nicht-ASCII als \X2\…\X0\ (UTF-16)
+function stepString(s: string): string {
+  let out = '';
+  let wide = '';
+  for (const ch of s) {
+    const c = ch.codePointAt(0)!;
+    if (c >= 32 && c <= 126) {
+      if (wide) { out += `\\X2\\${wide}\\X0\\`; wide = ''; }
+      out += ch === "'" ? "''" : ch === '\\' ? '\\\\' : ch;
+    } else {
+      for (let i = 0; i < ch.length; i++) wide += ch.charCodeAt(i).toString(16).toUpperCase().padStart(4, '0');
+    }
+  }
+  if (wide) out += `\\X2\\${wide}\\X0\\`;
+  return `'${out}'`;
+}
+
+function stepReal(s: string): string {
+  const n = Number(s.trim());
+  if (s.trim() === '' || !isFinite(n)) return '$';
+  const t = String(n);
+  const [m, e] = t.split('e');
+  const mantissa = m.includes('.') ? m : `${m}.`;
+  return e ? `${mantissa}E${e}` : mantissa;
+}
+
+function stepEnum(s: string): string {
+  const v = s.trim();
+  if (!v) return '$';
+  if (/^(true|t|1)$/i.test(v)) return '.T.';
+  if (/^(false|f|0)$/i.test(v)) return '.F.';
+  if (/^(unknown|u|2)$/i.test(v)) return '.U.';
+  return `.${v.toUpperCase()}.`;
+}
+
+function literal(text: string, tape: number): string {
+  switch (tape) {
+    case TAPE_REAL: return stepReal(text);
+    case TAPE_INTEGER: {
+      const n = Number(text.trim());
+      return text.trim() !== '' && isFinite(n) ? String(Math.round(n)) : '$';
+    }
+    case TAPE_ENUM: return stepEnum(text);
+    case TAPE_STRING:
+    case TAPE_LABEL:
+    default: return stepString(text);
+  }
+}
+
+function textOf(v: XmlValue): string | undefined {
+  return 'text' in v ? v.text : undefined;
+}
+
+function stepValue(v: XmlValue | undefined, kind: AttrKind, schema: number, at?: [string, string]): string {
+  if (kind.kind === 'derived') return '*';
+  if (v == null) return '$';
+  switch (kind.kind) {
+    case 'ref':
+      return 'ref' in v ? `#${v.ref}` : '$';
+    case 'list': {
+      let items: XmlValue[];
+      if ('list' in v) items = v.list;
+      else if ('text' in v && !('typed' in v)) {
+        // ifcXML4: einfache Listen als Attribut "0 0 0"
+        const flat = v.text.trim().split(/\s+/).filter(Boolean).map(text => ({ text }));
+        if (kind.of.kind === 'list') {
+          const size = at ? NESTED_LIST_SIZE[`${at[0]}.${at[1]}`] ?? NESTED_LIST_SIZE[at[1]] : undefined;
+          // innere Länge unbekannt oder variabel (InnerCoordIndices, WeightsData …) → nicht still verwerfen
+          if (!size) {
+            throw new Error(`ifcXML: ${at ? `${at[0]}.${at[1]}` : 'attribute'} is a list of lists written as flat text (inner list length unknown)`);
+          }
+          items = [];
+          for (let i = 0; i < flat.length; i += size) items.push({ list: flat.slice(i, i + size) });
+        } else if (kind.of.kind === 'value' || kind.of.kind === 'enum') {
+          items = flat;
+        } else return '$';
+      } else items = [v];
+      return `(${items.map(x => stepValue(x, kind.of, schema)).join(',')})`;
+    }
+    case 'value': {
+      const text = 'typed' in v ? v.text : textOf(v);
+      return text == null ? '$' : literal(text, kind.tape);
+    }
+    case 'select':
+      if ('ref' in v) return `#${v.ref}`;
+      if ('typed' in v) return `${v.typed.toUpperCase()}(${literal(v.text, tapeOf(schema, v.typed))})`;
+      return 'text' in v ? stepString(v.text) : '$';
+    case 'enum': {
+      const text = 'typed' in v ? v.text : textOf(v);
+      return text == null ? '$' : stepEnum(text);
+    }
+  }
+}
+
+/* ---- Erkennung & Umwandlung ---- */
+
+function xmlHead(buffer: Uint8Array): string {
+  return Buffer.from(buffer.subarray(0, 4096)).toString('utf8').replace(/^\uFEFF/, '').trimStart();
+}
+
+// Wurzelelemente mit Namensraum: ifcXML (IFC4/IFC4x3), iso_10303_28 (ifcXML2, IFC2x3)
+const IFCXML_ROOTS: Array<[string, RegExp]> = [
+  ['ifcXML', /^https?:\/\/(www\.buildingsmart-tech\.org\/ifcXML\/|standards\.buildingsmart\.org\/IFC\/)/i],
+  ['iso_10303_28', /^urn:(iso\.org:standard:10303:part\(28\)|oid:1\.0\.10303\.28)/i],
+];
+
+// erstes Start-Tag nach XML-Deklaration, Kommentaren und DOCTYPE → lokaler Name + Namensraum
+function rootElement(head: string): { name: string; ns: string } | undefined {
+  let rest = head;
+  for (;;) {
+    rest = rest.trimStart();
+    const close = rest.startsWith('<?') ? '?>' : rest.startsWith('<!--') ? '-->' : rest.startsWith('<!') ? '>' : '';
+    const end = close ? rest.indexOf(close) : -1;
+    if (end < 0) break;
+    rest = rest.slice(end + close.length);
+  }
+  const tag = /^<([A-Za-z_][\w.-]*(?::[A-Za-z_][\w.-]*)?)([^>]*)/.exec(rest);
+  if (!tag) return undefined;
+  const [prefix, name] = tag[1].includes(':') ? tag[1].split(':') : ['', tag[1]];
+  const xmlns = new RegExp(`\\sxmlns${prefix ? `:${prefix}` : ''}\\s*=\\s*(["'])(.*?)\\1`).exec(tag[2]);
+  return { name, ns: xmlns?.[2] ?? '' };
+}
+
+/** ifcXML erkennen: Wurzelelement ifcXML/iso_10303_28 im passenden Namensraum. */
+export function isIfcXml(buffer: Uint8Array): boolean {
+  const root = rootElement(xmlHead(buffer));
+  return !!root && IFCXML_ROOTS.some(([name, ns]) => root.name === name && ns.test(root.ns));
+}
+
+/** ifcXML → STEP-Datei (Buffer), die web-ifc wie eine .ifc öffnet. */
+export function ifcXmlToStep(buffer: Uint8Array, fileName = 'ifcxml'): Buffer {
+  if (WEB_IFC_ERROR) throw new Error(WEB_IFC_ERROR);
+  const { index: schema, name: schemaName } = detectSchema(xmlHead(buffer));
+  const lines: string[] = [];
+  const ids = new Map<string, number>();
+  let nextId = 0;
+  const idFor = (key: string) => {
+    let id = ids.get(key);
+    if (id == null) { id = ++nextId; ids.set(key, id); }
+    return id;
+  };
+
+  const stack: Frame[] = [];
+  const top = () => stack[stack.length - 1];
+  const isEntity = (code: number | undefined) => code != null && !!W.FromRawLineData?.[schema]?.[code];
+  const isDefinedType = (code: number | undefined) => code != null && !!W.TypeInitialisers?.[schema]?.[code];
+
+  const openEntity = (code: number, a: Record<string, string>, parent: Frame | undefined, asAttr?: string) => {
+    const frame: EntityFrame = {
+      t: 'entity',
+      id: a.id ? idFor(a.id) : ++nextId,
+      code,
+      schema: entitySchema(schema, code),
+      attrs: new Map(),
+      asAttr,
+    };
+    // ifcXML4: einfache Attribute als XML-Attribute
+    for (const [k, v] of Object.entries(a)) {
+      if (k === 'id' || k === 'ref' || k === 'pos' || k.includes(':') || k.startsWith('xmlns')) continue;
+      frame.attrs.set(k, { text: v });
+    }
+    // über ein inverses Attribut verschachtelt (IsDefinedBy …): Rückverweis ergänzen
+    if (parent?.t === 'attr' && parent.inverse && frame.schema) {
+      const attribute = frame.schema.attributes[parent.inverse[2]];
+      if (attribute) frame.inverse = { attribute, ref: parent.owner.id };
+    }
+    stack.push(frame);
+  };
+
+  const closeEntity = (frame: EntityFrame) => {
+    if (frame.inverse) {
+      const { attribute, ref } = frame.inverse;
+      const cur = frame.attrs.get(attribute);
+      const list = cur == null ? [] : 'list' in cur ? cur.list : [cur];
+      if (!list.some(x => 'ref' in x && x.ref === ref)) list.push({ ref });
+      frame.attrs.set(attribute, { list });
+    }
+    if (frame.schema) {
+      const { name, attributes, kinds } = frame.schema;
+      const args = attributes.map((a, i) => stepValue(frame.attrs.get(a), kinds[i], schema, [name, a]));
+      lines.push(`#${frame.id}=${frame.schema.name}(${args.join(',')});`);
+    }
+    const parent = top();
+    if (frame.asAttr && parent?.t === 'entity') parent.attrs.set(frame.asAttr, { ref: frame.id });
+    else if (parent?.t === 'attr' && !parent.inverse) parent.values.push({ ref: frame.id });
+  };
+
+  const parser = new SaxesParser();
+
+  parser.on('opentag', (tag: SaxesTagPlain) => {
+    const a = tag.attributes as Record<string, string>;
+    const name = local(tag.name).replace(/-wrapper$/, '');
+    const parent = top();
+    const code = typeCode(name);
+
+    if (isEntity(code)) {
+      if (a.ref) {
+        if (parent?.t === 'attr' && !parent.inverse) parent.values.push({ ref: idFor(a.ref) });
+        stack.push({ t: 'skip' });
+      } else {
+        openEntity(code!, a, parent);
+      }
+      return;
+    }
+
+    if (parent?.t === 'entity') {
+      // Attribut-Element des Elternobjekts
+      const xsiType = typeCode(local(a['xsi:type']));
+      if (a.ref) {
+        parent.attrs.set(name, { ref: idFor(a.ref) });
+        stack.push({ t: 'skip' });
+      } else if (isEntity(xsiType)) {
+        openEntity(xsiType!, a, parent, name);
+      } else {
+        const inverse = (W.InversePropertyDef?.[schema]?.[parent.code] ?? []).find((d: any[]) => d[0] === name);
+        stack.push({ t: 'attr', name, owner: parent, values: [], text: '', inverse });
+      }
+      return;
+    }
+
+    if (isDefinedType(code)) {
+      stack.push({ t: 'typed', name, text: '' });
+      return;
+    }
+    stack.push({ t: 'skip' });
+  });
+
+  const onText = (t: string) => {
+    const f = top();
+    if (f?.t === 'attr' || f?.t === 'typed') f.text += t;
+  };
+  parser.on('text', onText);
+  parser.on('cdata', onText);
+
+  parser.on('closetag', () => {
+    const frame = stack.pop();
+    const parent = top();
+    if (!frame) return;
+    if (frame.t === 'entity') {
+      closeEntity(frame);
+    } else if (frame.t === 'attr') {
+      if (frame.inverse) return;
+      const value: XmlValue | undefined = frame.values.length > 1
+        ? { list: frame.values }
+        : frame.values.length === 1
+          ? frame.values[0]
+          : frame.text.trim() !== '' ? { text: frame.text } : undefined;
+      if (value) frame.owner.attrs.set(frame.name, value);
+    } else if (frame.t === 'typed') {
+      if (parent?.t === 'attr') parent.values.push({ typed: frame.name, text: frame.text });
+    }
+  });
+
+  const decoder = new StringDecoder('utf8');
+  for (let o = 0; o < buffer.length; o += CHUNK) {
+    parser.write(decoder.write(Buffer.from(buffer.subarray(o, o + CHUNK))));
+  }
+  parser.write(decoder.end());
+  parser.close();
+
+  if (!lines.length) throw new Error('ifcXML: no IFC entities found');
+
+  const header = [
+    'ISO-10303-21;',
+    'HEADER;',
+    "FILE_DESCRIPTION(('ViewDefinition [ifcXML]'),'2;1');",
+    // ohne Zeitstempel: gleiche Eingabe → gleicher Inhalts-Hash im Modell-Cache
+    `FILE_NAME(${stepString(fileName)},'',(''),(''),'','BIM X ifcXML','');`,
+    `FILE_SCHEMA(('${schemaName}'));`,
+    'ENDSEC;',
+    'DATA;',
+  ];
+  return Buffer.from([...header, ...lines, 'ENDSEC;', 'END-ISO-10303-21;', ''].join('\n'), 'utf8');
+}
@@ -0,0 +1,195 @@
+// src/lib/materials.ts
+
+import {
+  IFCRELASSOCIATESMATERIAL,
+  IFCMATERIAL,
+  IFCMATERIALLIST,
+  IFCMATERIALLAYERSET,
+  IFCMATERIALLAYERSETUSAGE,
+  IFCMATERIALCONSTITUENTSET,
+  IFCMATERIALPROFILESET,
+  IFCMATERIALPROFILESETUSAGE,
+  IFCMATERIALPROFILESETUSAGETAPERING,
+} from 'web-ifc';
+import { type ProjectUnits, SI_UNITS } from './units';
+import { forEachIdVector, toPrimitive } from './extract';
+
+/* --------------------------------- Materialien ------------------------------ */
+/*   IfcRelAssociatesMaterial → IfcMaterial / IfcMaterialList /               */
+/*   IfcMaterialLayerSet(Usage) / IfcMaterialConstituentSet /                 */
+/*   IfcMaterialProfileSet(Usage). Schichtdicken in SI (m). Hat das Exemplar  */
+/*   kein Material, gilt das des Typobjekts (Wandtyp mit Schichtaufbau).      */
+
+export type MaterialSetType = 'Material' | 'MaterialList' | 'LayerSet' | 'ConstituentSet' | 'ProfileSet';
+
+export interface MaterialPart {
+  index: number;          // 1-basiert, Reihenfolge wie im Modell
+  material?: string;
+  category?: string;
+  name?: string;          // Layer-/Constituent-/Profile-Name (IFC4)
+  thickness?: number;     // nur Layer, SI (m)
+  ventilated?: boolean;   // nur Layer
+  fraction?: number;      // nur Constituent (0…1)
+  profile?: string;       // nur Profile: ProfileName
+}
+
+export interface MaterialInfo {
+  setType: MaterialSetType;
+  setName?: string;
+  parts: MaterialPart[];
+}
+
+// Spalten, die runQtoOnIFC / Attribute Export mit aktiven Materialien schreiben
+export const MATERIAL_COLUMNS = {
+  material: 'Material',
+  set: 'MaterialSet',
+  setType: 'MaterialSetType',
+  count: 'MaterialLayerCount',
+  thickness: 'MaterialThickness',
+} as const;
+
+function text(v: any): string | undefined {
+  const p = toPrimitive(v);
+  return p == null || p === '' ? undefined : String(p);
+}
+
+// IfcLogical: web-ifc liefert 1/0 (2 = UNKNOWN), ältere Exporte .T./.F.
+function logical(v: any): boolean | undefined {
+  const p = toPrimitive(v);
+  if (p === true || p === 1 || p === 'T') return true;
+  if (p === false || p === 0 || p === 'F') return false;
+}
+
+function line(api: any, modelID: number, ref: any): any {
+  return ref?.value ? api.GetLine(modelID, ref.value) : null;
+}
+
+// Layer/Constituent/Profile: eigene Category vor der des IfcMaterial
+function materialOf(api: any, modelID: number, part: any): { material?: string; category?: string } {
+  const m = line(api, modelID, part?.Material);
+  return { material: text(m?.Name), category: text(part?.Category) ?? text(m?.Category) };
+}
+
+function readMaterial(api: any, modelID: number, id: number, units: ProjectUnits): MaterialInfo | undefined {
+  let def = api.GetLine(modelID, id);
+  if (!def) return;
+
+  // Usage → zugrunde liegendes Set
+  if (def.type === IFCMATERIALLAYERSETUSAGE) def = line(api, modelID, def.ForLayerSet);
+  else if (def.type === IFCMATERIALPROFILESETUSAGE || def.type === IFCMATERIALPROFILESETUSAGETAPERING) {
+    def = line(api, modelID, def.ForProfileSet);
+  }
+  if (!def) return;
+
+  switch (def.type) {
+    case IFCMATERIAL:
+      return { setType: 'Material', parts: [{ index: 1, material: text(def.Name), category: text(def.Category) }] };
+
+    case IFCMATERIALLIST:
+      return {
+        setType: 'MaterialList',
+        parts: (def.Materials ?? []).map((r: any, i: number) => {
+          const m = line(api, modelID, r);
+          return { index: i + 1, material: text(m?.Name), category: text(m?.Category) };
+        }),
+      };
+
+    case IFCMATERIALLAYERSET:
+      return {
+        setType: 'LayerSet',
+        setName: text(def.LayerSetName),
+        parts: (def.MaterialLayers ?? []).map((r: any, i: number) => {
+          const l = line(api, modelID, r);
+          const t = Number(toPrimitive(l?.LayerThickness));
+          return {
+            index: i + 1,
+            ...materialOf(api, modelID, l),
+            name: text(l?.Name),
+            thickness: isFinite(t) ? t * units.length : undefined,
+            ventilated: logical(l?.IsVentilated),
+          };
+        }),
+      };
+
+    case IFCMATERIALCONSTITUENTSET:
+      return {
+        setType: 'ConstituentSet',
+        setName: text(def.Name),
+        parts: (def.MaterialConstituents ?? []).map((r: any, i: number) => {
+          const c = line(api, modelID, r);
+          const f = Number(toPrimitive(c?.Fraction));
+          return {
+            index: i + 1,
+            ...materialOf(api, modelID, c),
+            name: text(c?.Name),
+            fraction: c?.Fraction != null && isFinite(f) ? f : undefined,
+          };
+        }),
+      };
+
+    case IFCMATERIALPROFILESET:
+      return {
+        setType: 'ProfileSet',
+        setName: text(def.Name),
+        parts: (def.MaterialProfiles ?? []).map((r: any, i: number) => {
+          const p = line(api, modelID, r);
+          return {
+            index: i + 1,
+            ...materialOf(api, modelID, p),
+            name: text(p?.Name),
+            profile: text(line(api, modelID, p?.Profile)?.ProfileName),
+          };
+        }),
+      };
+  }
+}
+
+/** Objekt-ID (Bauteil, Raum oder Typobjekt) → Material. */
+export function buildMaterialIndex(api: any, modelID: number, units: ProjectUnits = SI_UNITS): Map<number, MaterialInfo> {
+  const byObject = new Map<number, MaterialInfo>();
+  const cache = new Map<number, MaterialInfo | undefined>();
+  forEachIdVector(api.GetLineIDsWithType(modelID, IFCRELASSOCIATESMATERIAL), (relId) => {
+    const rel = api.GetLine(modelID, relId);
+    const matId = rel?.RelatingMaterial?.value;
+    if (!matId) return;
+    if (!cache.has(matId)) cache.set(matId, readMaterial(api, modelID, matId, units));
+    const info = cache.get(matId);
+    if (!info) return;
+    for (const o of (rel?.RelatedObjects ?? [])) {
+      // erste Zuordnung gewinnt (Exporte hängen Usage und Set teils doppelt an)
+      if (o?.value && !byObject.has(o.value)) byObject.set(o.value, info);
+    }
+  });
+  return byObject;
+}
+
+/** Summenspalten: Materialnamen, Set, Anzahl Schichten, Gesamtdicke (SI). */
+export function materialColumns(info: MaterialInfo | undefined): Record<string, any> {
+  if (!info) return {};
+  const names = [...new Set(info.parts.map(p => p.material).filter((n): n is string => !!n))];
+  const thicknesses = info.parts.map(p => p.thickness).filter((t): t is number => t != null);
+  return {
+    [MATERIAL_COLUMNS.material]: names.length ? names.join('; ') : null,
+    [MATERIAL_COLUMNS.set]: info.setName ?? null,
+    [MATERIAL_COLUMNS.setType]: info.setType,
+    [MATERIAL_COLUMNS.count]: info.parts.length,
+    [MATERIAL_COLUMNS.thickness]: thicknesses.length ? thicknesses.reduce((a, b) => a + b, 0) : null,
+  };
+}
+
+/** Long-Format: eine Zeile je Schicht / Bestandteil / Profil. */
+export function materialPartRows(info: MaterialInfo | undefined): Array<Record<string, any>> {
+  if (!info) return [];
+  return info.parts.map(p => ({
+    SetType: info.setType,
+    Set: info.setName ?? null,
+    Index: p.index,
+    Material: p.material ?? null,
+    Category: p.category ?? null,
+    PartName: p.name ?? null,
+    LayerThickness: p.thickness ?? null,
+    IsVentilated: p.ventilated ?? null,
+    Fraction: p.fraction ?? null,
+    Profile: p.profile ?? null,
+  }));
+}
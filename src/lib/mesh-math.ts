@@ -11,18 +11,20 @@ export function triangleArea2D(
   return Math.abs(ax * (by - cy) + bx * (cy - ay) + cx * (ay - by)) * 0.5;
 }
 
-// Fläche der XY-Projektion eines triangulierten Meshes
+// Fläche der XY-Projektion eines triangulierten Meshes.
+// Vorzeichenbehaftet summiert: bei geschlossenen Körpern heben sich Ober- und
+// Unterseite auf, daher zählt nur eine Orientierung (die größere Summe).
 export function footprintAreaXY(verts: Float32Array, indices: Uint32Array) {
-  let area = 0;
+  let up = 0, down = 0;
   for (let i = 0; i < indices.length; i += 3) {
     const i0 = indices[i] * 3, i1 = indices[i + 1] * 3, i2 = indices[i + 2] * 3;
-    area += triangleArea2D(
-      verts[i0],     verts[i0 + 1],
-      verts[i1],     verts[i1 + 1],
-      verts[i2],     verts[i2 + 1]
-    );
+    const ax = verts[i0], ay = verts[i0 + 1];
+    const bx = verts[i1], by = verts[i1 + 1];
+    const cx = verts[i2], cy = verts[i2 + 1];
+    const signed = (ax * (by - cy) + bx * (cy - ay) + cx * (ay - by)) * 0.5;
+    if (signed > 0) up += signed; else down -= signed;
   }
-  return area;
+  return Math.max(up, down);
 }
 
 // Volumen via Summe der Tetraeder (um den Ursprung)
@@ -49,10 +51,10 @@ function applyMatrix4ToVerts(vs: Float32Array, m: number[] | Float32Array) {
   if (!m || (m as any).length !== 16) return vs;
   const out = new Float32Array(vs.length);
 
-  const m00 = +m[0],  m01 = +m[1],  m02 = +m[2],  m03 = +m[3];
-  const m10 = +m[4],  m11 = +m[5],  m12 = +m[6],  m13 = +m[7];
-  const m20 = +m[8],  m21 = +m[9],  m22 = +m[10], m23 = +m[11];
-  const m30 = +m[12], m31 = +m[13], m32 = +m[14], m33 = +m[15];
+  const m00 = +m[0],  m01 = +m[1],  m02 = +m[2];
+  const m10 = +m[4],  m11 = +m[5],  m12 = +m[6];
+  const m20 = +m[8],  m21 = +m[9],  m22 = +m[10];
+  const m30 = +m[12], m31 = +m[13], m32 = +m[14];
 
   // Wir ignorieren mögliche perspektivische Komponenten (m03,m13,m23,m33)
   for (let i = 0; i < vs.length; i += 3) {
@@ -64,59 +66,95 @@ function applyMatrix4ToVerts(vs: Float32Array, m: number[] | Float32Array) {
   return out;
 }
 
+// web-ifc liefert Vertices interleaved (x,y,z,nx,ny,nz) → nur Positionen behalten
+function positionsFromVertexData(raw: Float32Array, stride = 6) {
+  const n = Math.floor(raw.length / stride);
+  const out = new Float32Array(n * 3);
+  for (let i = 0; i < n; i++) {
+    out[i * 3]     = raw[i * stride];
+    out[i * 3 + 1] = raw[i * stride + 1];
+    out[i * 3 + 2] = raw[i * stride + 2];
+  }
+  return out;
+}
+
+// web-ifc transformiert nach Y-up (three.js) → zurück nach IFC-Z-up: (x, y, z) → (x, -z, y)
+function yUpToZUp(vs: Float32Array) {
+  for (let i = 0; i < vs.length; i += 3) {
+    const y = vs[i + 1], z = vs[i + 2];
+    vs[i + 1] = -z;
+    vs[i + 2] = y;
+  }
+  return vs;
+}
+
 /* ---------------------- web-ifc Mesh → Area/Volume API --------------------- */
 
+export interface MeshAreaVolume {
+  area?: number;
+  volume?: number;
+  base?: number;
+  top?: number;
+}
+
 /**
- * Holt alle FlatMeshes über `web-ifc`, filtert auf den gegebenen IfcSpace
- * (expressID), trianguliert & summiert daraus XY-Fläche und Volumen.
+ * Trianguliert genau einen IfcSpace (expressID) über `GetFlatMesh` und
+ * summiert daraus XY-Fläche, Volumen sowie min/max Z.
  *
- * Erwartet die Node-API von `web-ifc` (IfcAPI). Wir typisieren alles defensiv mit `any`,
- * um API-Änderungen zwischen Versionen nicht sofort kaputt zu machen.
+ * Werte sind in Metern (web-ifc skaliert beim Tessellieren auf SI).
+ * Fehler von web-ifc werden NICHT abgefangen – der Aufrufer isoliert pro Space.
+ * Wir typisieren alles defensiv mit `any`, um API-Änderungen zwischen Versionen
+ * nicht sofort kaputt zu machen.
  */
-export function getSpaceAreaVolume(api: any, modelID: number, spaceExpressID: number) {
+export function getSpaceAreaVolume(api: any, modelID: number, spaceExpressID: number): MeshAreaVolume {
   // Falls der Build keine Geometrie liefert, geben wir nichts zurück
-  if (!api || typeof api.LoadAllGeometry !== 'function') {
+  if (!api || typeof api.GetFlatMesh !== 'function') {
     return {};
   }
 
   let area = 0;
   let volume = 0;
+  let minZ = Infinity;
+  let maxZ = -Infinity;
   let found = false;
 
-  const flatMeshes = api.LoadAllGeometry(modelID);
-  const size = typeof flatMeshes?.size === 'function' ? flatMeshes.size() : 0;
-
-  for (let i = 0; i < size; i++) {
-    const fm: any = flatMeshes.get(i);
-    // Nur Geometrie des gewünschten IfcSpace
-    if ((fm?.expressID ?? fm?.ExpressID) !== spaceExpressID) continue;
-    found = true;
-
-    const geom: any = api.GetGeometry(modelID, fm.geometryExpressID);
-    if (!geom) continue;
-
-    // web-ifc liefert Pointer + Size → in TypedArrays mappen
-    const vRaw: Float32Array = api.GetArray(geom.GetVertexData(), geom.GetVertexDataSize());
-    const iRaw: any = api.GetArray(geom.GetIndexData(), geom.GetIndexDataSize());
-
-    // Indices sauber als Uint32Array vorliegen lassen
-    const indices = (iRaw instanceof Uint32Array) ? iRaw : new Uint32Array(iRaw);
-    let verts = vRaw;
-
-    // Mögliche Transformationsmatrix anwenden (Namensvarianten abdecken)
-    const m =
-      (fm && (fm.matrix || fm.transformMatrix || fm.coordinationMatrix || fm.transform)) || null;
-
-    if (m && (m as any).length === 16) {
-      verts = applyMatrix4ToVerts(verts, m as any);
+  const fm: any = api.GetFlatMesh(modelID, spaceExpressID);
+  try {
+    const geoms = fm?.geometries;
+    const size = typeof geoms?.size === 'function' ? geoms.size() : 0;
+
+    for (let i = 0; i < size; i++) {
+      const pg: any = geoms.get(i);
+      const geom: any = api.GetGeometry(modelID, pg.geometryExpressID);
+      if (!geom) continue;
+
+      try {
+        // web-ifc liefert Pointer + Size → in TypedArrays mappen
+        const vRaw: Float32Array = api.GetVertexArray(geom.GetVertexData(), geom.GetVertexDataSize());
+        const iRaw: any = api.GetIndexArray(geom.GetIndexData(), geom.GetIndexDataSize());
+        if (!vRaw?.length || !iRaw?.length) continue;
+
+        // Indices sauber als Uint32Array vorliegen lassen
+        const indices = (iRaw instanceof Uint32Array) ? iRaw : new Uint32Array(iRaw);
+        const verts = yUpToZUp(applyMatrix4ToVerts(positionsFromVertexData(vRaw), pg.flatTransformation));
+
+        found = true;
+        area   += footprintAreaXY(verts, indices);
+        volume += meshVolume(verts, indices);
+        for (let k = 2; k < verts.length; k += 3) {
+          if (verts[k] < minZ) minZ = verts[k];
+          if (verts[k] > maxZ) maxZ = verts[k];
+        }
+      } finally {
+        // Geometrie freigeben (WASM-Speicher)
+        if (typeof geom.delete === 'function') {
+          try { geom.delete(); } catch {}
+        }
+      }
     }
-
-    area   += footprintAreaXY(verts, indices);
-    volume += meshVolume(verts, indices);
-
-    // Optional: Geometrie freigeben, falls API das unterstützt
-    if (typeof api.ReleaseGeometry === 'function') {
-      try { api.ReleaseGeometry(modelID, fm.geometryExpressID); } catch {}
+  } finally {
+    if (typeof fm?.delete === 'function') {
+      try { fm.delete(); } catch {}
     }
   }
 
@@ -124,5 +162,7 @@ export function getSpaceAreaVolume(api: any, modelID: number, spaceExpressID: nu
   return {
     area: area > 0 ? area : undefined,
     volume: volume > 0 ? volume : undefined,
+    base: isFinite(minZ) ? minZ : undefined,
+    top: isFinite(maxZ) ? maxZ : undefined,
   };
 }
@@ -0,0 +1,198 @@
+// src/lib/placement.ts
+
+/* ------------------------- Placement / Transformation ---------------------- */
+/*   IfcLocalPlacement-Kette (PlacementRelTo) → Weltkoordinaten.              */
+/*   Matrizen sind 4×4, spaltenweise (column-major) wie web-ifc              */
+/*   `flatTransformation` – damit austauschbar mit mesh-math.ts.             */
+
+export type Mat4 = number[];
+export type Vec3 = { x: number; y: number; z: number };
+
+export const IDENTITY: Mat4 = [
+  1, 0, 0, 0,
+  0, 1, 0, 0,
+  0, 0, 1, 0,
+  0, 0, 0, 1,
+];
+
+/* ---- Vektor-Helfer ---- */
+
+function num(v: any): number {
+  const n = +((v?.value) ?? v ?? 0);
+  return isFinite(n) ? n : 0;
+}
+
+function normalize(v: Vec3): Vec3 | undefined {
+  const l = Math.hypot(v.x, v.y, v.z);
+  if (l < 1e-12) return undefined;
+  return { x: v.x / l, y: v.y / l, z: v.z / l };
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+function dot(a: Vec3, b: Vec3) {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+/* ---- Matrix-Helfer ---- */
+
+export function multiply(a: Mat4, b: Mat4): Mat4 {
+  const out = new Array(16).fill(0);
+  for (let c = 0; c < 4; c++) {
+    for (let r = 0; r < 4; r++) {
+      let s = 0;
+      for (let k = 0; k < 4; k++) s += a[k * 4 + r] * b[c * 4 + k];
+      out[c * 4 + r] = s;
+    }
+  }
+  return out;
+}
+
+export function transformPoint(m: Mat4, p: Vec3): Vec3 {
+  return {
+    x: m[0] * p.x + m[4] * p.y + m[8]  * p.z + m[12],
+    y: m[1] * p.x + m[5] * p.y + m[9]  * p.z + m[13],
+    z: m[2] * p.x + m[6] * p.y + m[10] * p.z + m[14],
+  };
+}
+
+// Richtung ohne Translation
+export function transformDirection(m: Mat4, d: Vec3): Vec3 {
+  return {
+    x: m[0] * d.x + m[4] * d.y + m[8]  * d.z,
+    y: m[1] * d.x + m[5] * d.y + m[9]  * d.z,
+    z: m[2] * d.x + m[6] * d.y + m[10] * d.z,
+  };
+}
+
+function fromAxes(o: Vec3, x: Vec3, y: Vec3, z: Vec3): Mat4 {
+  return [
+    x.x, x.y, x.z, 0,
+    y.x, y.y, y.z, 0,
+    z.x, z.y, z.z, 0,
+    o.x, o.y, o.z, 1,
+  ];
+}
+
+/* ---- IFC-Entitäten lesen ---- */
+
+export function readPoint(api: any, modelID: number, cartId: number | undefined): Vec3 {
+  if (!cartId) return { x: 0, y: 0, z: 0 };
+  const cp = api.GetLine(modelID, cartId);
+  const c = cp?.Coordinates ?? [];
+  return { x: num(c?.[0]), y: num(c?.[1]), z: num(c?.[2]) };
+}
+
+export function readDirection(api: any, modelID: number, dirId: number | undefined): Vec3 | undefined {
+  if (!dirId) return undefined;
+  const d = api.GetLine(modelID, dirId);
+  const r = d?.DirectionRatios ?? [];
+  return normalize({ x: num(r?.[0]), y: num(r?.[1]), z: num(r?.[2]) });
+}
+
+/**
+ * IfcAxis2Placement3D / IfcAxis2Placement2D → Matrix.
+ * Axis = lokales Z, RefDirection = lokales X (auf Z orthogonalisiert).
+ */
+export function axis2PlacementMatrix(api: any, modelID: number, placeId: number | undefined): Mat4 {
+  if (!placeId) return IDENTITY;
+  const pl = api.GetLine(modelID, placeId);
+  if (!pl) return IDENTITY;
+
+  const o = readPoint(api, modelID, pl?.Location?.value);
+  const z = readDirection(api, modelID, pl?.Axis?.value) ?? { x: 0, y: 0, z: 1 };
+  const ref = readDirection(api, modelID, pl?.RefDirection?.value) ?? { x: 1, y: 0, z: 0 };
+
+  // RefDirection auf die Ebene senkrecht zu Z projizieren
+  const d = dot(ref, z);
+  const x =
+    normalize({ x: ref.x - d * z.x, y: ref.y - d * z.y, z: ref.z - d * z.z }) ??
+    normalize(cross({ x: 0, y: 1, z: 0 }, z)) ??
+    { x: 1, y: 0, z: 0 };
+  const y = cross(z, x);
+
+  return fromAxes(o, x, y, z);
+}
+
+/**
+ * IfcCartesianTransformationOperator3D (MappedItem.MappingTarget) → Matrix.
+ * Scale wird nicht übernommen (Aufrufer prüft `operatorScale`).
+ */
+export function cartesianOperatorMatrix(api: any, modelID: number, opId: number | undefined): Mat4 {
+  if (!opId) return IDENTITY;
+  const op = api.GetLine(modelID, opId);
+  if (!op) return IDENTITY;
+
+  const o = readPoint(api, modelID, op?.LocalOrigin?.value);
+  const z = readDirection(api, modelID, op?.Axis3?.value) ?? { x: 0, y: 0, z: 1 };
+  const ref = readDirection(api, modelID, op?.Axis1?.value) ?? { x: 1, y: 0, z: 0 };
+  const d = dot(ref, z);
+  const x =
+    normalize({ x: ref.x - d * z.x, y: ref.y - d * z.y, z: ref.z - d * z.z }) ??
+    normalize(cross({ x: 0, y: 1, z: 0 }, z)) ??
+    { x: 1, y: 0, z: 0 };
+  return fromAxes(o, x, cross(z, x), z);
+}
+
+export function operatorScale(api: any, modelID: number, opId: number | undefined): number {
+  if (!opId) return 1;
+  const op = api.GetLine(modelID, opId);
+  return op?.Scale != null ? (num(op.Scale) || 1) : 1;
+}
+
+/**
+ * IfcLocalPlacement inkl. kompletter PlacementRelTo-Kette → Weltmatrix.
+ * Optionaler Cache (pro Modell-Durchlauf), da Storey-/Building-Placements
+ * von vielen Objekten geteilt werden.
+ */
+export function localPlacementMatrix(
+  api: any,
+  modelID: number,
+  placementId: number | undefined,
+  cache?: Map<number, Mat4>,
+  depth = 0,
+): Mat4 {
+  if (!placementId || depth > 64) return IDENTITY;
+  const cached = cache?.get(placementId);
+  if (cached) return cached;
+
+  const lp = api.GetLine(modelID, placementId);
+  // IfcGridPlacement & Co. werden (noch) nicht aufgelöst
+  if (!lp?.RelativePlacement) return IDENTITY;
+
+  const local = axis2PlacementMatrix(api, modelID, lp.RelativePlacement?.value);
+  const parentId = lp?.PlacementRelTo?.value;
+  const world = parentId
+    ? multiply(localPlacementMatrix(api, modelID, parentId, cache, depth + 1), local)
+    : local;
+
+  cache?.set(placementId, world);
+  return world;
+}
+
+/** Weltmatrix des ObjectPlacement eines IfcProduct. */
+export function objectPlacementMatrix(
+  api: any,
+  modelID: number,
+  product: any,
+  cache?: Map<number, Mat4>,
+): Mat4 {
+  return localPlacementMatrix(api, modelID, product?.ObjectPlacement?.value, cache);
+}
+
+/** Ursprung des ObjectPlacement in Weltkoordinaten. */
+export function objectPlacementOrigin(
+  api: any,
+  modelID: number,
+  product: any,
+  cache?: Map<number, Mat4>,
+): Vec3 {
+  const m = objectPlacementMatrix(api, modelID, product, cache);
+  return { x: m[12], y: m[13], z: m[14] };
+}
@@ -0,0 +1,517 @@
+// src/lib/profile-math.ts
+
+import { IFCARCINDEX } from 'web-ifc';
+import { axis2PlacementMatrix } from './placement';
+
+/* ------------------------------ Profil-/Kurvenflächen ---------------------- */
+/*   Geschlossene Kurven über den Green'schen Satz: ∮ (x dy − y dx) / 2.      */
+/*   Linien als Sehnen, Kreis-/Ellipsenbögen analytisch integriert.          */
+
+type P2 = { x: number; y: number };
+
+// Green-Integral eines (offenen) Kurvenzugs + Endpunkte zum Schließen.
+// pts: abgetasteter Verlauf (Bögen segmentiert → approx) für Umriss-Polygone.
+type CurveGreen = { g: number; start: P2; end: P2; pts: P2[]; approx: boolean };
+
+function num(v: any): number {
+  const n = +((v?.value) ?? v ?? 0);
+  return isFinite(n) ? n : 0;
+}
+
+function cross2(a: P2, b: P2) {
+  return a.x * b.y - a.y * b.x;
+}
+
+export function polygonArea2D(pts: Array<{ x: number; y: number }>) {
+  let a = 0;
+  for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+    a += (pts[j].x * pts[i].y) - (pts[i].x * pts[j].y);
+  }
+  return Math.abs(a) * 0.5;
+}
+
+function point2(api: any, modelID: number, cartId: number): P2 {
+  const cp = api.GetLine(modelID, cartId);
+  const c = cp?.Coordinates ?? [];
+  return { x: num(c?.[0]), y: num(c?.[1]) };
+}
+
+function polylineGreen(pts: P2[]): CurveGreen | undefined {
+  if (pts.length < 2) return;
+  let g = 0;
+  for (let i = 0; i + 1 < pts.length; i++) g += cross2(pts[i], pts[i + 1]);
+  return { g, start: pts[0], end: pts[pts.length - 1], pts: pts.slice(), approx: false };
+}
+
+// Teilstücke aneinanderhängen (gemeinsame Stoßpunkte nur einmal)
+function appendPts(out: P2[], pts: P2[]) {
+  for (const p of pts) {
+    const last = out[out.length - 1];
+    if (last && Math.abs(last.x - p.x) < 1e-9 && Math.abs(last.y - p.y) < 1e-9) continue;
+    out.push(p);
+  }
+}
+
+/* ---- Winkel ---- */
+
+const TWO_PI = Math.PI * 2;
+const ARC_STEP = Math.PI / 36; // 5° je Sehne beim Abtasten von Bögen
+
+// Trim-Parameter in Radiant. Ohne bekannte Projekteinheit: Werte > 2π sind Grad.
+function paramToRadians(v: number, angleFactor?: number) {
+  if (angleFactor != null) return v * angleFactor;
+  return Math.abs(v) > TWO_PI + 1e-9 ? v * Math.PI / 180 : v;
+}
+
+// Parameterbereich in Laufrichtung normalisieren (t1 == t2 ⇒ Vollkreis)
+function sweep(t1: number, t2: number, ccw: boolean) {
+  let d = t2 - t1;
+  if (ccw) { while (d <= 0) d += TWO_PI; while (d > TWO_PI) d -= TWO_PI; }
+  else     { while (d >= 0) d -= TWO_PI; while (d < -TWO_PI) d += TWO_PI; }
+  return d;
+}
+
+/* ---- Kegelschnitte (IfcCircle / IfcEllipse) ---- */
+
+type Conic = { c: P2; u: P2; v: P2; a: number; b: number };
+
+function readConic(api: any, modelID: number, line: any): Conic | undefined {
+  const a = num(line?.Radius ?? line?.SemiAxis1);
+  const b = num(line?.Radius ?? line?.SemiAxis2);
+  if (a <= 0 || b <= 0) return;
+  const m = axis2PlacementMatrix(api, modelID, line?.Position?.value);
+  return { c: { x: m[12], y: m[13] }, u: { x: m[0], y: m[1] }, v: { x: m[4], y: m[5] }, a, b };
+}
+
+function conicPoint(k: Conic, t: number): P2 {
+  const ca = k.a * Math.cos(t), sb = k.b * Math.sin(t);
+  return { x: k.c.x + ca * k.u.x + sb * k.v.x, y: k.c.y + ca * k.u.y + sb * k.v.y };
+}
+
+function conicParam(k: Conic, p: P2) {
+  const d = { x: p.x - k.c.x, y: p.y - k.c.y };
+  return Math.atan2((d.x * k.v.x + d.y * k.v.y) / k.b, (d.x * k.u.x + d.y * k.u.y) / k.a);
+}
+
+// p(t) = c + a·cos t·U + b·sin t·V  ⇒  p × p' = c × p' + a·b·(U × V)
+function conicArcGreen(k: Conic, t1: number, dt: number): CurveGreen {
+  const start = conicPoint(k, t1);
+  const end = conicPoint(k, t1 + dt);
+  const g = cross2(k.c, { x: end.x - start.x, y: end.y - start.y }) + k.a * k.b * dt * cross2(k.u, k.v);
+  const n = Math.max(2, Math.ceil(Math.abs(dt) / ARC_STEP));
+  const pts: P2[] = [];
+  for (let i = 0; i <= n; i++) pts.push(conicPoint(k, t1 + dt * i / n));
+  return { g, start, end, pts, approx: true };
+}
+
+// Kreisbogen durch drei Punkte (IfcArcIndex)
+function threePointArcGreen(p1: P2, pm: P2, p2: P2): CurveGreen {
+  const d = 2 * (p1.x * (pm.y - p2.y) + pm.x * (p2.y - p1.y) + p2.x * (p1.y - pm.y));
+  if (Math.abs(d) < 1e-12) return polylineGreen([p1, p2])!; // kollinear → Sehne
+  const s1 = p1.x * p1.x + p1.y * p1.y;
+  const sm = pm.x * pm.x + pm.y * pm.y;
+  const s2 = p2.x * p2.x + p2.y * p2.y;
+  const c = {
+    x: (s1 * (pm.y - p2.y) + sm * (p2.y - p1.y) + s2 * (p1.y - pm.y)) / d,
+    y: (s1 * (p2.x - pm.x) + sm * (p1.x - p2.x) + s2 * (pm.x - p1.x)) / d,
+  };
+  const r = Math.hypot(p1.x - c.x, p1.y - c.y);
+  const ccw = cross2({ x: pm.x - p1.x, y: pm.y - p1.y }, { x: p2.x - pm.x, y: p2.y - pm.y }) > 0;
+  const k: Conic = { c, u: { x: 1, y: 0 }, v: { x: 0, y: 1 }, a: r, b: r };
+  const t1 = Math.atan2(p1.y - c.y, p1.x - c.x);
+  const t2 = Math.atan2(p2.y - c.y, p2.x - c.x);
+  const g = conicArcGreen(k, t1, sweep(t1, t2, ccw));
+  return { ...g, start: p1, end: p2 };
+}
+
+/* ---- Kurventypen ---- */
+
+function indexedPolyCurveGreen(api: any, modelID: number, curve: any): CurveGreen | undefined {
+  const list = api.GetLine(modelID, curve.Points.value);
+  const pts: P2[] = (list?.CoordList ?? []).map((c: any) => ({ x: num(c?.[0]), y: num(c?.[1]) }));
+  if (pts.length < 2) return;
+
+  // Segment-Typen (IfcLineIndex/IfcArcIndex) gehen in GetLine verloren → Rohdaten lesen
+  let segments: Array<{ arc: boolean; idx: number[] }> = [];
+  try {
+    const raw = api.GetRawLineData(modelID, curve.expressID);
+    for (const s of (raw?.arguments?.[1] ?? [])) {
+      segments.push({ arc: s?.typecode === IFCARCINDEX, idx: (s?.value ?? []).map((x: any) => num(x)) });
+    }
+  } catch {
+    segments = (curve.Segments ?? []).map((s: any) => ({ arc: false, idx: (s?.value ?? []).map((x: any) => num(x)) }));
+  }
+  if (!segments.length) return polylineGreen(pts);
+
+  let g = 0, approx = false;
+  let start: P2 | undefined, end: P2 | undefined;
+  const outPts: P2[] = [];
+  for (const s of segments) {
+    const sp = s.idx.map(i => pts[i - 1]).filter(Boolean);
+    if (sp.length < 2) continue;
+    const part = (s.arc && sp.length === 3) ? threePointArcGreen(sp[0], sp[1], sp[2]) : polylineGreen(sp)!;
+    g += part.g;
+    approx = approx || part.approx;
+    appendPts(outPts, part.pts);
+    start = start ?? part.start;
+    end = part.end;
+  }
+  if (!start || !end) return;
+  return { g, start, end, pts: outPts, approx };
+}
+
+function trimmedCurveGreen(api: any, modelID: number, curve: any, angleFactor?: number): CurveGreen | undefined {
+  const basis = curve?.BasisCurve?.value ? api.GetLine(modelID, curve.BasisCurve.value) : null;
+  if (!basis) return;
+
+  // Trim-Selects: Punkt-Referenz (Zahl) oder IfcParameterValue (String in GetLine)
+  const readTrim = (list: any[]) => {
+    let point: P2 | undefined, param: number | undefined;
+    for (const t of (list ?? [])) {
+      if (t?.type === 5 && typeof t.value === 'number') point = point2(api, modelID, t.value);
+      else if (t?.value != null && isFinite(parseFloat(t.value))) param = parseFloat(t.value);
+    }
+    return { point, param };
+  };
+  const tr1 = readTrim(curve.Trim1);
+  const tr2 = readTrim(curve.Trim2);
+  const sense = curve?.SenseAgreement?.value !== false;
+  const preferParam = curve?.MasterRepresentation?.value === 'PARAMETER';
+
+  const conic = readConic(api, modelID, basis);
+  if (conic) {
+    const angle = (tr: { point?: P2; param?: number }) =>
+      (tr.param != null && (preferParam || !tr.point)) ? paramToRadians(tr.param, angleFactor)
+      : tr.point ? conicParam(conic, tr.point) : undefined;
+    const t1 = angle(tr1), t2 = angle(tr2);
+    if (t1 == null || t2 == null) return;
+    return conicArcGreen(conic, t1, sweep(t1, t2, sense));
+  }
+
+  // IfcLine: Pnt + t · Dir (IfcVector)
+  if (basis?.Pnt?.value && basis?.Dir?.value) {
+    const pnt = point2(api, modelID, basis.Pnt.value);
+    const vec = api.GetLine(modelID, basis.Dir.value);
+    const dir = vec?.Orientation?.value ? api.GetLine(modelID, vec.Orientation.value) : null;
+    const mag = num(vec?.Magnitude) || 1;
+    const dx = num(dir?.DirectionRatios?.[0]) * mag, dy = num(dir?.DirectionRatios?.[1]) * mag;
+    const at = (tr: { point?: P2; param?: number }) =>
+      (tr.param != null && (preferParam || !tr.point)) ? { x: pnt.x + tr.param * dx, y: pnt.y + tr.param * dy }
+      : tr.point;
+    const a = at(tr1), b = at(tr2);
+    if (!a || !b) return;
+    return sense ? polylineGreen([a, b]) : polylineGreen([b, a]);
+  }
+
+  // sonstige Basiskurven: über die Trim-Punkte als Sehne
+  if (tr1.point && tr2.point) return sense ? polylineGreen([tr1.point, tr2.point]) : polylineGreen([tr2.point, tr1.point]);
+}
+
+function compositeCurveGreen(
+  api: any,
+  modelID: number,
+  curve: any,
+  angleFactor: number | undefined,
+  depth: number,
+): CurveGreen | undefined {
+  let g = 0, approx = false;
+  let start: P2 | undefined, end: P2 | undefined;
+  const outPts: P2[] = [];
+  for (const s of curve.Segments) {
+    const sid = s?.value; if (!sid) continue;
+    const seg = api.GetLine(modelID, sid);
+    const parentId = seg?.ParentCurve?.value;
+    if (!parentId) continue;
+    const part = curveGreen(api, modelID, parentId, angleFactor, depth + 1);
+    if (!part) continue;
+    // SameSense = false → Segment rückwärts durchlaufen
+    const same = seg?.SameSense?.value !== false;
+    g += same ? part.g : -part.g;
+    approx = approx || part.approx;
+    appendPts(outPts, same ? part.pts : part.pts.slice().reverse());
+    start = start ?? (same ? part.start : part.end);
+    end = same ? part.end : part.start;
+  }
+  if (!start || !end) return;
+  return { g, start, end, pts: outPts, approx };
+}
+
+/**
+ * ∮ (x dy − y dx) eines 2D-Kurvenzugs (offen, mit Start/Ende).
+ * angleFactor: Radiant je Winkeleinheit des Projekts (optional).
+ */
+function curveGreen(
+  api: any,
+  modelID: number,
+  curveId: number,
+  angleFactor?: number,
+  depth = 0,
+): CurveGreen | undefined {
+  if (depth > 16) return;
+  const c = api.GetLine(modelID, curveId);
+  if (!c) return;
+
+  // IfcPolyline
+  if (Array.isArray(c.Points) || Array.isArray(c.Polygon)) {
+    const pts = (c.Points ?? c.Polygon).filter((p: any) => p?.value).map((p: any) => point2(api, modelID, p.value));
+    return polylineGreen(pts);
+  }
+  // IfcIndexedPolyCurve (Points = Referenz auf IfcCartesianPointList2D/3D)
+  if (c.Points?.value) return indexedPolyCurveGreen(api, modelID, c);
+  // IfcCompositeCurve
+  if (Array.isArray(c.Segments)) return compositeCurveGreen(api, modelID, c, angleFactor, depth);
+  // IfcTrimmedCurve
+  if (c.BasisCurve?.value) return trimmedCurveGreen(api, modelID, c, angleFactor);
+  // IfcCircle / IfcEllipse (vollständig)
+  const conic = readConic(api, modelID, c);
+  if (conic) return conicArcGreen(conic, 0, TWO_PI);
+}
+
+/** Geschlossene 2D-Kurve (Profil-OuterCurve, FootPrint-Item) → Fläche. */
+export function areaOfClosedCurve(api: any, modelID: number, curveId: number, angleFactor?: number): number {
+  const cg = curveGreen(api, modelID, curveId, angleFactor);
+  if (!cg) return 0;
+  // implizit schließen (Sehne Ende → Start)
+  return Math.abs(cg.g + cross2(cg.end, cg.start)) * 0.5;
+}
+
+/* ---- Parametrische Profile ---- */
+
+function areaOfRectangleProfile(p: any) {
+  const x = Math.max(0, num(p?.XDim));
+  const y = Math.max(0, num(p?.YDim));
+  // IfcRoundedRectangleProfileDef: vier Viertelkreis-Ecken
+  const r = Math.min(num(p?.RoundingRadius), x / 2, y / 2);
+  return x * y - (4 - Math.PI) * r * r;
+}
+
+function areaOfRectangleHollowProfile(p: any) {
+  const x = Math.max(0, num(p?.XDim));
+  const y = Math.max(0, num(p?.YDim));
+  const t = Math.max(0, num(p?.WallThickness));
+  const ro = num(p?.OuterFilletRadius);
+  const ri = num(p?.InnerFilletRadius);
+  const outer = x * y - (4 - Math.PI) * ro * ro;
+  const inner = Math.max(0, x - 2 * t) * Math.max(0, y - 2 * t) - (4 - Math.PI) * ri * ri;
+  return Math.max(0, outer - inner);
+}
+
+function areaOfCircleProfile(p: any) {
+  const r = num(p?.Radius);
+  const t = num(p?.WallThickness);
+  const ri = t > 0 ? Math.max(0, r - t) : 0;
+  return Math.PI * (r * r - ri * ri);
+}
+
+function areaOfEllipseProfile(p: any) {
+  return Math.PI * Math.max(0, num(p?.SemiAxis1)) * Math.max(0, num(p?.SemiAxis2));
+}
+
+/**
+ * Fläche eines IfcProfileDef. angleFactor: Radiant je Winkeleinheit des
+ * Projekts für Trim-Parameter (optional, sonst Heuristik).
+ */
+export function areaOfProfile(api: any, modelID: number, profId: number, angleFactor?: number): number {
+  const p = api.GetLine(modelID, profId);
+  if (!p) return 0;
+
+  // strukturell prüfen statt nur p.type; Kurven direkt als Profil
+  if (p.Points || p.Polygon || Array.isArray(p.Segments) || p.BasisCurve) {
+    return areaOfClosedCurve(api, modelID, profId, angleFactor);
+  }
+
+  // ArbitraryClosedProfile / ArbitraryProfileDefWithVoids
+  if (p.OuterCurve || p.InnerCurves) {
+    let A = 0;
+    const outer = p.OuterCurve?.value;
+    if (outer) A += areaOfClosedCurve(api, modelID, outer, angleFactor);
+    const inners = p.InnerCurves ?? [];
+    for (const ic of inners) {
+      const id = ic?.value;
+      if (!id) continue;
+      A -= areaOfClosedCurve(api, modelID, id, angleFactor);
+    }
+    return Math.max(0, A);
+  }
+
+  // IfcDerivedProfileDef: Elternprofil × Skalierung des Operators
+  if (p.ParentProfile?.value) {
+    const op = p.Operator?.value ? api.GetLine(modelID, p.Operator.value) : null;
+    const s1 = op?.Scale != null ? num(op.Scale) : 1;
+    const s2 = op?.Scale2 != null ? num(op.Scale2) : s1;
+    return areaOfProfile(api, modelID, p.ParentProfile.value, angleFactor) * Math.abs(s1 * s2);
+  }
+
+  if ('XDim' in p && 'YDim' in p) {
+    return ('WallThickness' in p) ? areaOfRectangleHollowProfile(p) : areaOfRectangleProfile(p);
+  }
+  if ('SemiAxis1' in p && 'SemiAxis2' in p) return areaOfEllipseProfile(p);
+  if ('Radius' in p) return areaOfCircleProfile(p);
+
+  if (Array.isArray(p.Profiles)) {
+    const areas: number[] = [];
+    for (const sp of p.Profiles) {
+      const sid = sp?.value; if (!sid) continue;
+      areas.push(areaOfProfile(api, modelID, sid, angleFactor));
+    }
+    if (!areas.length) return 0;
+    areas.sort((a, b) => b - a);
+    return Math.max(0, areas[0] - areas.slice(1).reduce((s,v)=>s+v,0));
+  }
+
+  return 0;
+}
+
+/** Länge einer offenen Kurve (z. B. Wandachse "Axis"); Bögen über die Abtastung. */
+export function curveLength(api: any, modelID: number, curveId: number, angleFactor?: number): number {
+  const cg = curveGreen(api, modelID, curveId, angleFactor);
+  if (!cg) return 0;
+  let L = 0;
+  for (let i = 1; i < cg.pts.length; i++) L += Math.hypot(cg.pts[i].x - cg.pts[i - 1].x, cg.pts[i].y - cg.pts[i - 1].y);
+  return L;
+}
+
+/* ---- Umriss-Polygone (für Prismen/Clipping in solid-math.ts) ---- */
+
+export interface ProfileLoops {
+  loops: P2[][];    // erstes = außen (CCW), weitere = Öffnungen (CW); in Profil-Koordinaten
+  approx: boolean;  // Bögen/Kreise segmentiert
+}
+
+function signedArea2(loop: P2[]) {
+  let a = 0;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) a += cross2(loop[j], loop[i]);
+  return a * 0.5;
+}
+
+// Außen CCW, innen CW – dann ergeben Prismen/Fächer konsistente Orientierungen
+function orient(loop: P2[], ccw: boolean) {
+  const closed = loop.length > 1 &&
+    Math.abs(loop[0].x - loop[loop.length - 1].x) < 1e-9 && Math.abs(loop[0].y - loop[loop.length - 1].y) < 1e-9;
+  const l = closed ? loop.slice(0, -1) : loop.slice();
+  return (signedArea2(l) > 0) === ccw ? l : l.reverse();
+}
+
+function curveLoop(api: any, modelID: number, curveId: number, angleFactor?: number) {
+  const cg = curveGreen(api, modelID, curveId, angleFactor);
+  if (!cg || cg.pts.length < 3) return;
+  return { pts: cg.pts, approx: cg.approx };
+}
+
+function sampleConicLoop(a: number, b: number): P2[] {
+  const n = Math.ceil(TWO_PI / ARC_STEP);
+  const out: P2[] = [];
+  for (let i = 0; i < n; i++) out.push({ x: a * Math.cos(TWO_PI * i / n), y: b * Math.sin(TWO_PI * i / n) });
+  return out;
+}
+
+function roundedRectLoop(x: number, y: number, r: number): P2[] {
+  const hx = x / 2, hy = y / 2;
+  if (r <= 0) return [{ x: -hx, y: -hy }, { x: hx, y: -hy }, { x: hx, y: hy }, { x: -hx, y: hy }];
+  const out: P2[] = [];
+  const corners = [
+    { cx: hx - r, cy: -hy + r, t0: -Math.PI / 2 },
+    { cx: hx - r, cy: hy - r, t0: 0 },
+    { cx: -hx + r, cy: hy - r, t0: Math.PI / 2 },
+    { cx: -hx + r, cy: -hy + r, t0: Math.PI },
+  ];
+  const n = Math.max(2, Math.ceil((Math.PI / 2) / ARC_STEP));
+  for (const c of corners) {
+    for (let i = 0; i <= n; i++) {
+      const t = c.t0 + (Math.PI / 2) * i / n;
+      out.push({ x: c.cx + r * Math.cos(t), y: c.cy + r * Math.sin(t) });
+    }
+  }
+  return out;
+}
+
+/**
+ * Umriss eines IfcProfileDef als Polygon-Loops inkl. Profil-Position.
+ * Gegenstück zu areaOfProfile – für Körper, die mehr als die Fläche brauchen.
+ */
+export function profileLoops(api: any, modelID: number, profId: number, angleFactor?: number): ProfileLoops | undefined {
+  const p = api.GetLine(modelID, profId);
+  if (!p) return;
+
+  const finish = (outer: P2[], inners: P2[][], approx: boolean, placed = false): ProfileLoops | undefined => {
+    if (outer.length < 3) return;
+    const loops = [orient(outer, true), ...inners.filter(l => l.length >= 3).map(l => orient(l, false))];
+    if (placed || !p.Position?.value) return { loops, approx };
+    const m = axis2PlacementMatrix(api, modelID, p.Position.value);
+    const tf = (q: P2) => ({ x: m[0] * q.x + m[4] * q.y + m[12], y: m[1] * q.x + m[5] * q.y + m[13] });
+    return { loops: loops.map(l => l.map(tf)), approx };
+  };
+
+  // Kurve direkt als Profil
+  if (p.Points || p.Polygon || Array.isArray(p.Segments) || p.BasisCurve) {
+    const c = curveLoop(api, modelID, profId, angleFactor);
+    return c ? finish(c.pts, [], c.approx, true) : undefined;
+  }
+
+  // ArbitraryClosedProfile / ArbitraryProfileDefWithVoids (Kurven bereits im Profilsystem)
+  if (p.OuterCurve?.value) {
+    const outer = curveLoop(api, modelID, p.OuterCurve.value, angleFactor);
+    if (!outer) return;
+    let approx = outer.approx;
+    const inners: P2[][] = [];
+    for (const ic of (p.InnerCurves ?? [])) {
+      const l = ic?.value ? curveLoop(api, modelID, ic.value, angleFactor) : undefined;
+      if (!l) continue;
+      inners.push(l.pts);
+      approx = approx || l.approx;
+    }
+    return finish(outer.pts, inners, approx, true);
+  }
+
+  // IfcDerivedProfileDef: LocalOrigin + Scale·x·Axis1 + Scale2·y·Axis2
+  if (p.ParentProfile?.value) {
+    const parent = profileLoops(api, modelID, p.ParentProfile.value, angleFactor);
+    if (!parent) return;
+    const op = p.Operator?.value ? api.GetLine(modelID, p.Operator.value) : null;
+    const s1 = op?.Scale != null ? num(op.Scale) : 1;
+    const s2 = op?.Scale2 != null ? num(op.Scale2) : s1;
+    const ax = op?.Axis1?.value ? api.GetLine(modelID, op.Axis1.value) : null;
+    const ay = op?.Axis2?.value ? api.GetLine(modelID, op.Axis2.value) : null;
+    const a1 = ax ? { x: num(ax.DirectionRatios?.[0]), y: num(ax.DirectionRatios?.[1]) } : { x: 1, y: 0 };
+    const a2 = ay ? { x: num(ay.DirectionRatios?.[0]), y: num(ay.DirectionRatios?.[1]) } : { x: -a1.y, y: a1.x };
+    const o = op?.LocalOrigin?.value ? point2(api, modelID, op.LocalOrigin.value) : { x: 0, y: 0 };
+    const tf = (q: P2) => ({
+      x: o.x + s1 * q.x * a1.x + s2 * q.y * a2.x,
+      y: o.y + s1 * q.x * a1.y + s2 * q.y * a2.y,
+    });
+    const [outer, ...inners] = parent.loops.map(l => l.map(tf));
+    return finish(outer, inners, parent.approx, true);
+  }
+
+  if ('XDim' in p && 'YDim' in p) {
+    const x = Math.max(0, num(p.XDim)), y = Math.max(0, num(p.YDim));
+    if ('WallThickness' in p) {
+      const t = Math.max(0, num(p.WallThickness));
+      const fillets = num(p.OuterFilletRadius) > 0 || num(p.InnerFilletRadius) > 0;
+      return finish(roundedRectLoop(x, y, num(p.OuterFilletRadius)),
+        [roundedRectLoop(Math.max(0, x - 2 * t), Math.max(0, y - 2 * t), num(p.InnerFilletRadius))], fillets);
+    }
+    const r = Math.min(num(p.RoundingRadius), x / 2, y / 2);
+    return finish(roundedRectLoop(x, y, r), [], r > 0);
+  }
+  if ('SemiAxis1' in p && 'SemiAxis2' in p) {
+    return finish(sampleConicLoop(num(p.SemiAxis1), num(p.SemiAxis2)), [], true);
+  }
+  if ('Radius' in p) {
+    const r = num(p.Radius), t = num(p.WallThickness);
+    return finish(sampleConicLoop(r, r), t > 0 && r - t > 0 ? [sampleConicLoop(r - t, r - t)] : [], true);
+  }
+
+  // IfcCompositeProfileDef: Loops der Teilprofile nebeneinander
+  if (Array.isArray(p.Profiles)) {
+    const loops: P2[][] = [];
+    let approx = false;
+    for (const sp of p.Profiles) {
+      const sub = sp?.value ? profileLoops(api, modelID, sp.value, angleFactor) : undefined;
+      if (!sub) continue;
+      loops.push(...sub.loops);
+      approx = approx || sub.approx;
+    }
+    return loops.length ? { loops, approx } : undefined;
+  }
+}
@@ -0,0 +1,289 @@
+// src/lib/reader.ts
+
+import * as WEBIFC from 'web-ifc';
+import {
+  IFCRELDEFINESBYPROPERTIES,
+  IFCRELDEFINESBYTYPE,
+  IFCPROPERTYSET,
+  IFCELEMENTQUANTITY,
+} from 'web-ifc';
+import { type ModelHandle, type OpenModelSettings, openModel } from './ifc-api';
+import {
+  type PhysicalQuantityKind,
+  UNIT_KIND_BY_QUANTITY,
+  flattenProperty,
+  flattenQuantity,
+  forEachIdVector,
+  toPrimitive,
+} from './extract';
+import { type ProjectUnits, type QuantityKind, measureKind, readProjectUnits, siFactorFor } from './units';
+import { type SpatialIndex, buildAggregateIndex, buildContainmentIndex, buildSpatialIndex } from './spatial';
+import { type MaterialInfo, buildMaterialIndex } from './materials';
+import { type ClassificationIndex, buildClassificationIndex } from './classification';
+import { type ZoneIndex, buildZoneIndex } from './zones';
+
+export { forEachIdVector, toPrimitive };
+
+/* ------------------------------ IFC-Modell lesen ---------------------------- */
+/*   Gemeinsamer Zugriff für Space QTO, Attribute Export und Parameter        */
+/*   Explorer: Indizes (Psets, Typen, Aggregation, Enthaltensein, Material,   */
+/*   Klassifikation, Zonen) werden erst bei Bedarf gebaut und hängen am       */
+/*   Modell-Cache. Alle Werte in SI (m, m², m³, kg, s) – Ausgabeeinheiten     */
+/*   wählt der jeweilige Node.                                                */
+
+const TYPE_NAME_BY_ID = new Map<number, string>(
+  Object.entries(WEBIFC)
+    .filter(([k, v]) => k.startsWith('IFC') && typeof v === 'number')
+    .map(([k, v]) => [v as number, k]),
+);
+
+/** web-ifc Typkonstante → "IFCWALL" (undefined bei unbekannten Konstanten). */
+export function ifcClassName(type: number | undefined): string | undefined {
+  return type == null ? undefined : TYPE_NAME_BY_ID.get(type);
+}
+
+export type ValueSource = 'occurrence' | 'type';
+
+export interface IfcValue {
+  key: string;                         // "<Pset|Qto>.<Name>", komplexe/Bereichswerte mit weiteren Punkten
+  set: string;                         // Name des Pset/Qto
+  value: any;                          // Pset-Werte ohne Wert bleiben null, Mengen ohne Wert entfallen
+  definition: 'pset' | 'qto';
+  source: ValueSource;
+  kind?: QuantityKind;                 // Länge/Fläche/Volumen → Ausgabeeinheit wählbar
+  quantityKind?: PhysicalQuantityKind; // nur Mengen
+}
+
+export interface IfcTypeRef {
+  id: number;
+  name?: string;
+  globalId?: string;
+}
+
+export interface IfcElementRecord {
+  id: number;
+  type: number;
+  ifcClass: string;                    // "IFCWALL", "IFCSPACE" …
+  globalId?: string;
+  name?: string;
+  longName?: string;
+  description?: string;
+  objectType?: string;
+  tag?: string;                        // Tag, ältere Raum-Exporte: Number
+  typeObject?: IfcTypeRef;
+  values: IfcValue[];                  // Typwerte vor Exemplarwerten
+  properties: Record<string, any>;     // zusammengeführt, Exemplarwerte haben Vorrang
+  fromType: string[];                  // Keys, deren Wert vom Typobjekt stammt
+  line: any;
+}
+
+export interface ElementOptions {
+  type?: boolean;           // Typobjekt auflösen (TypeName/TypeGlobalId, Material-Fallback)
+  typeProperties?: boolean; // Psets/Qtos des Typobjekts erben
+}
+
+export class IfcModelReader {
+  readonly api: any;
+  readonly modelID: number;
+
+  constructor(private readonly model: ModelHandle) {
+    this.api = model.api;
+    this.modelID = model.modelID;
+  }
+
+  /** Modell über den gemeinsamen Cache öffnen; Aufrufer muss release() aufrufen (finally). */
+  static async open(buffer: Uint8Array, settings?: OpenModelSettings): Promise<IfcModelReader> {
+    return new IfcModelReader(await openModel(buffer, settings));
+  }
+
+  release() {
+    this.model.release();
+  }
+
+  /** Weitere modellgebundene Indizes (z. B. Space Boundaries) im selben Cache ablegen. */
+  index<T>(key: string, build: () => T): T {
+    return this.model.index(key, build);
+  }
+
+  get schema(): string | undefined {
+    try { return this.api.GetModelSchema(this.modelID) || undefined; } catch { return undefined; }
+  }
+
+  /* ---- Indizes ---- */
+
+  get units(): ProjectUnits {
+    return this.index('units', () => readProjectUnits(this.api, this.modelID));
+  }
+
+  /** Objekt-ID → IfcPropertySet / IfcElementQuantity (IfcRelDefinesByProperties). */
+  get properties(): Map<number, any[]> {
+    return this.index('relDefines', () => {
+      const byRelated = new Map<number, any[]>();
+      forEachIdVector(this.api.GetLineIDsWithType(this.modelID, IFCRELDEFINESBYPROPERTIES), (relId) => {
+        const rel = this.api.GetLine(this.modelID, relId);
+        const related = rel?.RelatedObjects ?? [];
+        const defId = rel?.RelatingPropertyDefinition?.value;
+        if (!defId || !Array.isArray(related)) return;
+        const def = this.api.GetLine(this.modelID, defId);
+        for (const ro of related) {
+          const rid = ro?.value; if (!rid) continue;
+          if (!byRelated.has(rid)) byRelated.set(rid, []);
+          byRelated.get(rid)!.push(def);
+        }
+      });
+      return byRelated;
+    });
+  }
+
+  /** Exemplar-ID → IfcTypeObject (IfcRelDefinesByType). */
+  get types(): Map<number, any> {
+    return this.index('types', () => {
+      const typeOf = new Map<number, any>();
+      forEachIdVector(this.api.GetLineIDsWithType(this.modelID, IFCRELDEFINESBYTYPE), (relId) => {
+        const rel = this.api.GetLine(this.modelID, relId);
+        const typeId = rel?.RelatingType?.value;
+        const related = rel?.RelatedObjects ?? [];
+        if (!typeId || !Array.isArray(related)) return;
+        const typeLine = this.api.GetLine(this.modelID, typeId);
+        for (const ro of related) if (ro?.value) typeOf.set(ro.value, typeLine);
+      });
+      return typeOf;
+    });
+  }
+
+  get aggregates(): Map<number, number> {
+    return this.index('aggregates', () => buildAggregateIndex(this.api, this.modelID));
+  }
+
+  get containment(): Map<number, number> {
+    return this.index('containment', () => buildContainmentIndex(this.api, this.modelID));
+  }
+
+  get spatial(): SpatialIndex {
+    return this.index('spatial:si', () => buildSpatialIndex(this.api, this.modelID, this.units, {
+      aggregates: this.aggregates,
+      containment: this.containment,
+    }));
+  }
+
+  get materials(): Map<number, MaterialInfo> {
+    return this.index('materials:si', () => buildMaterialIndex(this.api, this.modelID, this.units));
+  }
+
+  get classifications(): ClassificationIndex {
+    return this.index('classifications', () => buildClassificationIndex(this.api, this.modelID));
+  }
+
+  get zones(): ZoneIndex {
+    return this.index('zones', () => buildZoneIndex(this.api, this.modelID));
+  }
+
+  /* ---- Entitäten ---- */
+
+  line(id: number): any {
+    return this.api.GetLine(this.modelID, id);
+  }
+
+  /** Express-IDs einer Klasse, optional inkl. Subtypen (IfcWall → IfcWallStandardCase …). */
+  ids(type: number, includeSubtypes = false): number[] {
+    const out: number[] = [];
+    forEachIdVector(this.api.GetLineIDsWithType(this.modelID, type, includeSubtypes), id => out.push(id));
+    return out;
+  }
+
+  typeOf(id: number): any {
+    return this.types.get(id);
+  }
+
+  /** Material des Objekts, sonst des Typobjekts (Wandtyp mit Schichtaufbau). */
+  materialOf(id: number): MaterialInfo | undefined {
+    const typeId = this.typeOf(id)?.expressID;
+    return this.materials.get(id) ?? (typeId ? this.materials.get(typeId) : undefined);
+  }
+
+  /** IfcPropertySet / IfcElementQuantity → flache Werte in SI (eigene Unit vor Projekteinheit). */
+  definitionValues(def: any, source: ValueSource = 'occurrence'): IfcValue[] {
+    const api = this.api;
+    const modelID = this.modelID;
+    const units = this.units;
+    const out: IfcValue[] = [];
+
+    if (def?.type === IFCPROPERTYSET) {
+      const set = toPrimitive(def?.Name) ?? 'Pset';
+      const scale = (v: number, measure: string | undefined, unit: any) => {
+        const kind = measureKind(measure);
+        return kind ? v * siFactorFor(api, modelID, kind, unit, units) : v;
+      };
+      for (const p of def?.HasProperties ?? []) {
+        const pl = p?.value ? api.GetLine(modelID, p.value) : null;
+        const nm = toPrimitive(pl?.Name);
+        if (!nm) continue;
+        for (const f of flattenProperty(api, modelID, pl, `${set}.${nm}`, scale)) {
+          const kind = f.value != null ? measureKind(f.measure) : undefined;
+          out.push({ key: f.key, set, value: f.value ?? null, definition: 'pset', source, ...(kind ? { kind } : {}) });
+        }
+      }
+    } else if (def?.type === IFCELEMENTQUANTITY) {
+      const set = toPrimitive(def?.Name) ?? 'Qto';
+      const scale = (v: number, kind: PhysicalQuantityKind, unit: any) => {
+        const uk = UNIT_KIND_BY_QUANTITY[kind];
+        return uk ? v * siFactorFor(api, modelID, uk, unit, units) : v;
+      };
+      for (const q of def?.Quantities ?? []) {
+        const ql = q?.value ? api.GetLine(modelID, q.value) : null;
+        const nm = toPrimitive(ql?.Name);
+        if (!nm) continue;
+        for (const f of flattenQuantity(api, modelID, ql, `${set}.${nm}`, scale)) {
+          const kind = f.kind === 'length' || f.kind === 'area' || f.kind === 'volume' ? f.kind : undefined;
+          out.push({ key: f.key, set, value: f.value, definition: 'qto', source, quantityKind: f.kind, ...(kind ? { kind } : {}) });
+        }
+      }
+    }
+    return out;
+  }
+
+  /** Typisierter Datensatz: Kernattribute, Typobjekt und alle Pset/Qto-Werte. */
+  element(id: number, opts: ElementOptions = {}): IfcElementRecord | undefined {
+    const line = this.line(id);
+    if (!line) return;
+
+    const typeLine = opts.type || opts.typeProperties ? this.typeOf(id) : undefined;
+    const values: IfcValue[] = [];
+    if (opts.typeProperties && typeLine) {
+      // Typ-Psets hängen direkt am Typ (HasPropertySets), nicht über IfcRelDefinesByProperties
+      for (const r of typeLine?.HasPropertySets ?? []) {
+        if (r?.value) values.push(...this.definitionValues(this.line(r.value), 'type'));
+      }
+    }
+    for (const def of this.properties.get(id) ?? []) values.push(...this.definitionValues(def, 'occurrence'));
+
+    const typeProps: Record<string, any> = {};
+    const occProps: Record<string, any> = {};
+    for (const v of values) (v.source === 'type' ? typeProps : occProps)[v.key] = v.value;
+
+    return {
+      id,
+      type: line.type,
+      ifcClass: ifcClassName(line.type) ?? `IFC#${line.type}`,
+      globalId: toPrimitive(line?.GlobalId) ?? undefined,
+      name: toPrimitive(line?.Name) ?? undefined,
+      longName: toPrimitive(line?.LongName) ?? undefined,
+      description: toPrimitive(line?.Description) ?? undefined,
+      objectType: toPrimitive(line?.ObjectType) ?? undefined,
+      tag: toPrimitive(line?.Tag ?? line?.Number) ?? undefined,
+      ...(typeLine
+        ? {
+            typeObject: {
+              id: typeLine.expressID,
+              name: toPrimitive(typeLine?.Name) ?? undefined,
+              globalId: toPrimitive(typeLine?.GlobalId) ?? undefined,
+            },
+          }
+        : {}),
+      values,
+      properties: { ...typeProps, ...occProps },
+      fromType: Object.keys(typeProps).filter(k => !(k in occProps)),
+      line,
+    };
+  }
+}
@@ -0,0 +1,262 @@
+// src/lib/solid-math.ts
+
+import { type Mat4, type Vec3, transformPoint } from './placement';
+
+/* ------------------------------ Körper als Dreiecksnetz -------------------- */
+/*   Für Körper ohne geschlossene Formel (geclippt, geneigt, verjüngt):      */
+/*   Prisma/Loft triangulieren, an Ebenen schneiden, dann Volumen über       */
+/*   vorzeichenbehaftete Tetraeder und Fußboden über horizontale Faces.      */
+/*   Die Netze sind "Ketten": Fächer-Dreiecke dürfen sich überlappen,        */
+/*   solange die Orientierung konsistent ist – Integrale bleiben exakt.      */
+
+type P2 = { x: number; y: number };
+export type Tri = [Vec3, Vec3, Vec3];
+
+export const HORIZONTAL_COS = 0.999; // |n_z| ab dem ein Face als horizontal gilt (~2.5°)
+
+export interface SolidMetrics {
+  area: number;
+  volume: number;
+  base: number;
+  top: number;
+  perimeter: number;     // Rand der Fußbodenflächen
+  wallArea: number;      // Flächen steiler als 45°, wahre Größe
+  ceilingArea: number;   // nach oben zeigende Flächen inkl. Dachschrägen, wahre Größe
+  approximated: boolean; // kein horizontaler Fußboden → projizierte Unterseite
+}
+
+/* ---- Vektor-Helfer ---- */
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return {
+    x: a.y * b.z - a.z * b.y,
+    y: a.z * b.x - a.x * b.z,
+    z: a.x * b.y - a.y * b.x,
+  };
+}
+
+function dot(a: Vec3, b: Vec3) {
+  return a.x * b.x + a.y * b.y + a.z * b.z;
+}
+
+function lerp(a: Vec3, b: Vec3, t: number): Vec3 {
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t, z: a.z + (b.z - a.z) * t };
+}
+
+/* ---- 2D-Loops ---- */
+
+// Vorzeichenbehaftete Fläche aller Loops (außen CCW, Öffnungen CW → Netto)
+export function loopsArea(loops: P2[][]): number {
+  let a = 0;
+  for (const l of loops) {
+    for (let i = 0, j = l.length - 1; i < l.length; j = i++) a += l[j].x * l[i].y - l[i].x * l[j].y;
+  }
+  return a * 0.5;
+}
+
+export function loopsPerimeter(loops: P2[][]): number {
+  let len = 0;
+  for (const l of loops) {
+    for (let i = 0, j = l.length - 1; i < l.length; j = i++) len += Math.hypot(l[i].x - l[j].x, l[i].y - l[j].y);
+  }
+  return len;
+}
+
+export function pointInPolygon(p: P2, loop: P2[]): boolean {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    const a = loop[i], b = loop[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < (b.x - a.x) * (p.y - a.y) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+}
+
+/* ---- Prisma / Loft ---- */
+
+function capAndWalls(bottom: Vec3[][], top: Vec3[][]): Tri[] {
+  const tris: Tri[] = [];
+  const o0 = bottom[0][0], o1 = top[0][0];
+  for (let k = 0; k < bottom.length; k++) {
+    const lb = bottom[k], lt = top[k];
+    for (let i = 0; i < lb.length; i++) {
+      const j = (i + 1) % lb.length;
+      const a = lb[i], b = lb[j], a1 = lt[i], b1 = lt[j];
+      tris.push([o0, b, a]);   // Grundfläche, Außennormale gegen Extrusionsrichtung
+      tris.push([o1, a1, b1]); // Deckfläche
+      tris.push([a, b, b1], [a, b1, a1]);
+    }
+  }
+  return tris;
+}
+
+function placeLoops(loops: P2[][], world: Mat4, offset: Vec3): Vec3[][] {
+  return loops.map(l => l.map(p => transformPoint(world, { x: p.x + offset.x, y: p.y + offset.y, z: offset.z })));
+}
+
+/** Extrusion eines Profils (Profil-Koordinaten, z=0) entlang dir·depth, in Welt transformiert. */
+export function prismTriangles(loops: P2[][], world: Mat4, dir: Vec3, depth: number): Tri[] {
+  if (!loops.length || loops[0].length < 3) return [];
+  const off = { x: dir.x * depth, y: dir.y * depth, z: dir.z * depth };
+  return capAndWalls(placeLoops(loops, world, { x: 0, y: 0, z: 0 }), placeLoops(loops, world, off));
+}
+
+/**
+ * Loft zwischen Start- und Endprofil (IfcExtrudedAreaSolidTapered).
+ * Nur bei gleicher Topologie (Loop-/Punktanzahl); planar=false, wenn die
+ * Seitenvierecke verwunden sind und die Dreiecksteilung das Volumen nähert.
+ */
+export function loftTriangles(
+  start: P2[][],
+  end: P2[][],
+  world: Mat4,
+  dir: Vec3,
+  depth: number,
+): { tris: Tri[]; planar: boolean } | undefined {
+  if (!sameTopology(start, end) || !start.length) return;
+  const off = { x: dir.x * depth, y: dir.y * depth, z: dir.z * depth };
+  const bottom = placeLoops(start, world, { x: 0, y: 0, z: 0 });
+  const top = placeLoops(end, world, off);
+
+  let planar = true;
+  for (let k = 0; k < bottom.length && planar; k++) {
+    const lb = bottom[k], lt = top[k];
+    for (let i = 0; i < lb.length; i++) {
+      const j = (i + 1) % lb.length;
+      const n = cross(sub(lb[j], lb[i]), sub(lt[j], lb[i]));
+      const len = Math.hypot(n.x, n.y, n.z);
+      const d = sub(lt[i], lb[i]);
+      if (len > 0 && Math.abs(dot(n, d)) / len > 1e-9 * Math.max(1, Math.hypot(d.x, d.y, d.z))) { planar = false; break; }
+    }
+  }
+  return { tris: capAndWalls(bottom, top), planar };
+}
+
+export function sameTopology(a: P2[][], b: P2[][]) {
+  return a.length === b.length && a.every((l, k) => l.length === b[k].length);
+}
+
+// Mittelprofil für die Simpson-Regel (lineare Interpolation der Eckpunkte)
+export function midLoops(a: P2[][], b: P2[][]): P2[][] {
+  return a.map((l, k) => l.map((p, i) => ({ x: (p.x + b[k][i].x) / 2, y: (p.y + b[k][i].y) / 2 })));
+}
+
+/* ---- Clipping an einer Ebene ---- */
+
+/**
+ * Entfernt den Halbraum {p | (p − o)·r > 0} (r zeigt in den weggeschnittenen Teil).
+ * Jede Schnittkante wird mit einem Fächer-Dreieck um o geschlossen – so bleibt
+ * das Netz ohne Kettenbildung der Schnittlinien geschlossen.
+ */
+export function clipByPlane(tris: Tri[], o: Vec3, r: Vec3): Tri[] {
+  const out: Tri[] = [];
+  for (const t of tris) {
+    const d = t.map(p => dot(sub(p, o), r));
+    if (d[0] <= 0 && d[1] <= 0 && d[2] <= 0) { out.push(t); continue; }
+    if (d[0] > 0 && d[1] > 0 && d[2] > 0) continue;
+
+    const poly: Vec3[] = [];
+    let exit: Vec3 | undefined, entry: Vec3 | undefined;
+    for (let i = 0; i < 3; i++) {
+      const j = (i + 1) % 3;
+      if (d[i] <= 0) poly.push(t[i]);
+      if ((d[i] <= 0) !== (d[j] <= 0)) {
+        const p = lerp(t[i], t[j], d[i] / (d[i] - d[j]));
+        poly.push(p);
+        if (d[i] <= 0) exit = p; else entry = p;
+      }
+    }
+    for (let i = 1; i + 1 < poly.length; i++) out.push([poly[0], poly[i], poly[i + 1]]);
+    if (exit && entry) out.push([o, entry, exit]);
+  }
+  return out;
+}
+
+/* ---- Auswertung ---- */
+
+// Grenze Wand/Decke: Flächen steiler als 45° zählen als Wand
+const WALL_COS = Math.SQRT1_2;
+
+// Umfang = Randkanten der Fußboden-Dreiecke; innere (auch Fächer-)Kanten heben sich auf
+function boundaryLength(tris: Tri[], tol: number): number {
+  const key = (p: Vec3) => `${Math.round(p.x / tol)},${Math.round(p.y / tol)},${Math.round(p.z / tol)}`;
+  const edges = new Map<string, { n: number; len: number }>();
+  for (const t of tris) {
+    for (let i = 0; i < 3; i++) {
+      const a = t[i], b = t[(i + 1) % 3];
+      const ka = key(a), kb = key(b);
+      if (ka === kb) continue;
+      const k = ka < kb ? `${ka}|${kb}` : `${kb}|${ka}`;
+      const e = edges.get(k) ?? { n: 0, len: Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z) };
+      e.n += ka < kb ? 1 : -1;
+      edges.set(k, e);
+    }
+  }
+  let len = 0;
+  for (const e of edges.values()) len += Math.abs(e.n) * e.len;
+  return len;
+}
+
+export function analyzeSolid(tris: Tri[]): SolidMetrics | undefined {
+  if (!tris.length) return;
+
+  let vol6 = 0;
+  const min = { x: Infinity, y: Infinity, z: Infinity }, max = { x: -Infinity, y: -Infinity, z: -Infinity };
+  for (const [a, b, c] of tris) {
+    vol6 += dot(a, cross(b, c));
+    for (const p of [a, b, c]) {
+      min.x = Math.min(min.x, p.x); min.y = Math.min(min.y, p.y); min.z = Math.min(min.z, p.z);
+      max.x = Math.max(max.x, p.x); max.y = Math.max(max.y, p.y); max.z = Math.max(max.z, p.z);
+    }
+  }
+  const flip = vol6 < 0 ? -1 : 1;
+
+  // Dreiecke je Ebene saldieren (kanonische Normale, Vorzeichen = Außenseite)
+  const tol = 1e-6 * Math.max(1, max.x - min.x, max.y - min.y, max.z - min.z);
+  const planes = new Map<string, { n: Vec3; a: number; z: number; tris: Tri[] }>();
+  for (const t of tris) {
+    const [a, b, c] = t;
+    const n = cross(sub(b, a), sub(c, a));
+    const len = Math.hypot(n.x, n.y, n.z);
+    if (len <= 0) continue;
+    const u = { x: n.x / len, y: n.y / len, z: n.z / len };
+    const sgn = (u.z > 1e-9 || (Math.abs(u.z) <= 1e-9 && (u.y > 1e-9 || (Math.abs(u.y) <= 1e-9 && u.x > 0)))) ? 1 : -1;
+    const cn = { x: u.x * sgn, y: u.y * sgn, z: u.z * sgn };
+    const k = [cn.x, cn.y, cn.z].map(v => Math.round(v * 1e4)).join(',') + '|' + Math.round(dot(cn, a) / tol);
+    const pl = planes.get(k) ?? { n: cn, a: 0, z: (a.z + b.z + c.z) / 3, tris: [] };
+    pl.a += sgn * flip * len * 0.5;
+    pl.tris.push(t);
+    planes.set(k, pl);
+  }
+
+  let area = 0, wallArea = 0, ceilingArea = 0, downward = 0;
+  let base = Infinity;
+  const floorTris: Tri[] = [];
+  for (const pl of planes.values()) {
+    const A = Math.abs(pl.a);
+    if (A <= tol * tol) continue;
+    const nz = pl.a > 0 ? pl.n.z : -pl.n.z; // z der Außennormalen
+    if (nz <= -HORIZONTAL_COS) {
+      area += A;
+      base = Math.min(base, pl.z);
+      floorTris.push(...pl.tris);
+    } else if (nz >= WALL_COS) {
+      ceilingArea += A;
+    } else if (Math.abs(nz) < WALL_COS) {
+      wallArea += A;
+    }
+    if (nz < 0) downward += A * -nz;
+  }
+
+  const volume = Math.abs(vol6) / 6;
+  if (area > 0) {
+    const perimeter = boundaryLength(floorTris, tol);
+    return { area, volume, base, top: max.z, perimeter, wallArea, ceilingArea, approximated: false };
+  }
+  // Kein horizontaler Fußboden (z. B. geneigte Unterseite) → Projektion nach unten
+  if (downward <= 0 && volume <= 0) return;
+  return { area: downward, volume, base: min.z, top: max.z, perimeter: 0, wallArea, ceilingArea, approximated: true };
+}
@@ -0,0 +1,143 @@
+// src/lib/spatial.ts
+
+import {
+  IFCPROJECT,
+  IFCSITE,
+  IFCBUILDING,
+  IFCBUILDINGSTOREY,
+  IFCSPACE,
+  IFCRELAGGREGATES,
+  IFCRELCONTAINEDINSPATIALSTRUCTURE,
+} from 'web-ifc';
+import { type ProjectUnits } from './units';
+import { forEachIdVector, toPrimitive } from './extract';
+
+/* ------------------------------ Räumliche Struktur -------------------------- */
+/*   Project → Site → Building → Storey → Space (→ Space) über               */
+/*   IfcRelAggregates; Bauteile/Räume zusätzlich über                         */
+/*   IfcRelContainedInSpatialStructure. Gemeinsam für Space QTO und           */
+/*   Attribute Export, damit beide dieselben Standortspalten liefern.         */
+
+export interface SpatialNode {
+  type: number;
+  name?: string;
+  globalId?: string;
+  elevation?: number; // nur Storey, SI (m)
+}
+
+export interface SpatialIndex {
+  parentOf: Map<number, number>;
+  nodes: Map<number, SpatialNode>;
+}
+
+export interface Location {
+  project?: string;
+  site?: string;
+  building?: string;
+  storey?: string;
+  storeyGlobalId?: string;
+  storeyElevation?: number;
+  parentSpace?: string; // nächster übergeordneter Raum (Raum-in-Raum bzw. im Raum enthaltenes Bauteil)
+}
+
+// Spaltennamen in Ausgabereihenfolge
+export const LOCATION_COLUMNS: Record<keyof Location, string> = {
+  project: 'Project',
+  site: 'Site',
+  building: 'Building',
+  storey: 'Storey',
+  storeyGlobalId: 'StoreyGlobalId',
+  storeyElevation: 'StoreyElevation',
+  parentSpace: 'ParentSpace',
+};
+
+/** Teil → Ganzes (IfcRelAggregates: Site → Project, Storey → Building, Raum → Geschoss …). */
+export function buildAggregateIndex(api: any, modelID: number): Map<number, number> {
+  const parentOf = new Map<number, number>();
+  forEachIdVector(api.GetLineIDsWithType(modelID, IFCRELAGGREGATES), (relId) => {
+    const rel = api.GetLine(modelID, relId);
+    const parent = rel?.RelatingObject?.value;
+    const children = rel?.RelatedObjects ?? [];
+    if (!parent || !Array.isArray(children)) return;
+    for (const c of children) if (c?.value) parentOf.set(c.value, parent);
+  });
+  return parentOf;
+}
+
+/** Bauteil/Raum → räumliche Struktur (IfcRelContainedInSpatialStructure). */
+export function buildContainmentIndex(api: any, modelID: number): Map<number, number> {
+  const containedIn = new Map<number, number>();
+  forEachIdVector(api.GetLineIDsWithType(modelID, IFCRELCONTAINEDINSPATIALSTRUCTURE), (relId) => {
+    const rel = api.GetLine(modelID, relId);
+    const parent = rel?.RelatingStructure?.value;
+    const children = rel?.RelatedElements ?? [];
+    if (!parent || !Array.isArray(children)) return;
+    for (const c of children) if (c?.value && !containedIn.has(c.value)) containedIn.set(c.value, parent);
+  });
+  return containedIn;
+}
+
+/** Beziehungen kommen aus den Indizes von IfcModelReader (aggregates/containment), nicht neu gelesen. */
+export function buildSpatialIndex(
+  api: any,
+  modelID: number,
+  units: ProjectUnits,
+  relations: { aggregates: Map<number, number>; containment: Map<number, number> },
+): SpatialIndex {
+  const parentOf = new Map(relations.aggregates);
+  const nodes = new Map<number, SpatialNode>();
+
+  // Enthaltensein nur, wenn keine Aggregation existiert (Aggregation hat Vorrang)
+  for (const [child, parent] of relations.containment) {
+    if (!parentOf.has(child)) parentOf.set(child, parent);
+  }
+
+  for (const type of [IFCPROJECT, IFCSITE, IFCBUILDING, IFCBUILDINGSTOREY, IFCSPACE]) {
+    forEachIdVector(api.GetLineIDsWithType(modelID, type), (id) => {
+      const line = api.GetLine(modelID, id);
+      const node: SpatialNode = {
+        type,
+        name: toPrimitive(line?.Name) ?? undefined,
+        globalId: toPrimitive(line?.GlobalId) ?? undefined,
+      };
+      if (type === IFCBUILDINGSTOREY) {
+        const e = Number(toPrimitive(line?.Elevation));
+        if (line?.Elevation != null && isFinite(e)) node.elevation = e * units.length;
+      }
+      nodes.set(id, node);
+    });
+  }
+  return { parentOf, nodes };
+}
+
+/** Kette nach oben; jeweils die nächstgelegene Ebene gewinnt. */
+export function resolveLocation(index: SpatialIndex, startId: number): Location {
+  const loc: Location = {};
+  let cur: number | undefined = startId;
+  let hops = 0;
+  while (cur != null && hops++ < 32) {
+    const parent = index.parentOf.get(cur);
+    if (parent == null) break;
+    const n = index.nodes.get(parent);
+    if (n?.type === IFCSPACE && loc.parentSpace == null) loc.parentSpace = n.name;
+    if (n?.type === IFCBUILDINGSTOREY && loc.storey == null) {
+      loc.storey = n.name;
+      loc.storeyGlobalId = n.globalId;
+      loc.storeyElevation = n.elevation;
+    }
+    if (n?.type === IFCBUILDING && loc.building == null) loc.building = n.name;
+    if (n?.type === IFCSITE && loc.site == null) loc.site = n.name;
+    if (n?.type === IFCPROJECT && loc.project == null) loc.project = n.name;
+    cur = parent;
+  }
+  return loc;
+}
+
+/** Location → Spalten (leere Ebenen entfallen). */
+export function locationColumns(loc: Location): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [k, col] of Object.entries(LOCATION_COLUMNS) as Array<[keyof Location, string]>) {
+    if (loc[k] != null) out[col] = loc[k];
+  }
+  return out;
+}
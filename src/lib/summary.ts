@@ -0,0 +1,122 @@
+// src/lib/summary.ts
+
+/* ------------------------------ Gruppierte Summen --------------------------- */
+/*   Pivot über die fertigen QTO-Zeilen (nach Umbenennen/Einheiten): je       */
+/*   Gruppierung eine Tabelle mit Aggregaten aller numerischen Spalten.       */
+
+export type Aggregate = 'sum' | 'avg' | 'min' | 'max' | 'count';
+
+export const AGGREGATES: Aggregate[] = ['sum', 'avg', 'min', 'max', 'count'];
+
+export interface SummaryOptions {
+  groupBy: string[];          // je Eintrag eine Tabelle; "Storey + Pset_SpaceCommon.Category" = kombiniert
+  aggregates?: Aggregate[];   // Default: sum
+  columns?: string[];         // nur diese numerischen Spalten (Default: alle)
+}
+
+export type SummaryTable = Array<Record<string, any>>;
+
+const EMPTY_GROUP = '(none)';
+
+// Exakt, dann ohne Groß-/Kleinschreibung, dann eindeutiges Suffix ("Category" → "Pset_SpaceCommon.Category")
+function resolveColumn(name: string, columns: string[]): string | undefined {
+  const t = name.trim();
+  if (columns.includes(t)) return t;
+  const lc = t.toLowerCase();
+  const ci = columns.find(c => c.toLowerCase() === lc);
+  if (ci) return ci;
+  const cands = columns.filter(c => c.toLowerCase().endsWith('.' + lc));
+  return cands.length === 1 ? cands[0] : undefined;
+}
+
+function numericColumns(rows: SummaryTable, exclude: Set<string>): string[] {
+  const seen = new Map<string, boolean>();
+  for (const r of rows) {
+    for (const [k, v] of Object.entries(r)) {
+      if (exclude.has(k) || v == null || v === '') continue;
+      const ok = typeof v === 'number' && isFinite(v);
+      seen.set(k, (seen.get(k) ?? true) && ok);
+    }
+  }
+  return [...seen].filter(([, ok]) => ok).map(([k]) => k);
+}
+
+function aggregate(values: number[], agg: Aggregate): number | undefined {
+  if (agg === 'count') return values.length;
+  if (!values.length) return;
+  switch (agg) {
+    case 'sum': return values.reduce((a, b) => a + b, 0);
+    case 'avg': return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+  }
+}
+
+/** Eine Gruppierung → Tabelle: Schlüsselspalten, Count, "<Spalte> (<agg>)". */
+export function summarizeRows(
+  rows: SummaryTable,
+  groupBy: string,
+  aggregates: Aggregate[] = ['sum'],
+  columns?: string[],
+): SummaryTable {
+  const allColumns = [...new Set(rows.flatMap(r => Object.keys(r)))];
+  const keys = groupBy.split('+').map(k => resolveColumn(k, allColumns) ?? k.trim()).filter(Boolean);
+  const numeric = numericColumns(rows, new Set(keys));
+  const valueCols = columns?.length
+    ? columns.map(c => resolveColumn(c, numeric)).filter((c): c is string => !!c)
+    : numeric;
+
+  const groups = new Map<string, { key: any[]; rows: SummaryTable }>();
+  for (const r of rows) {
+    const key = keys.map(k => (r[k] == null || r[k] === '' ? EMPTY_GROUP : r[k]));
+    const id = JSON.stringify(key);
+    if (!groups.has(id)) groups.set(id, { key, rows: [] });
+    groups.get(id)!.rows.push(r);
+  }
+
+  const out: SummaryTable = [];
+  for (const g of groups.values()) {
+    const row: Record<string, any> = {};
+    keys.forEach((k, i) => { row[k] = g.key[i]; });
+    row['Count'] = g.rows.length;
+    for (const c of valueCols) {
+      const vals = g.rows.map(r => r[c]).filter((v): v is number => typeof v === 'number' && isFinite(v));
+      for (const agg of aggregates) {
+        const v = aggregate(vals, agg);
+        if (v != null) row[`${c} (${agg})`] = v;
+      }
+    }
+    out.push(row);
+  }
+
+  // stabil nach Schlüssel sortieren (Zahlen numerisch)
+  const cmp = (a: any, b: any) =>
+    typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b), undefined, { numeric: true });
+  out.sort((a, b) => {
+    for (const k of keys) {
+      const d = cmp(a[k], b[k]);
+      if (d) return d;
+    }
+    return 0;
+  });
+  return out;
+}
+
+/** Alle Gruppierungen; Schlüssel = Gruppierungsangabe wie eingegeben. */
+export function buildSummary(rows: SummaryTable, opts: SummaryOptions): Record<string, SummaryTable> {
+  const summary: Record<string, SummaryTable> = {};
+  const aggs = opts.aggregates?.length ? opts.aggregates : (['sum'] as Aggregate[]);
+  for (const g of opts.groupBy.map(s => s.trim()).filter(Boolean)) {
+    summary[g] = summarizeRows(rows, g, aggs, opts.columns);
+  }
+  return summary;
+}
+
+/** Excel-taugliche Blattnamen (max. 31 Zeichen, ohne []:*?/\, eindeutig); prefix z. B. "M2" je Modell. */
+export function summarySheetName(groupBy: string, used: Set<string>, prefix?: string): string {
+  const base = `${prefix ? `${prefix} ` : ''}By ${groupBy}`.replace(/[[\]:*?/\\]/g, '_').slice(0, 31);
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) name = `${base.slice(0, 31 - String(i).length - 1)}_${i}`;
+  used.add(name.toLowerCase());
+  return name;
+}
@@ -0,0 +1,168 @@
+// src/lib/units.ts
+
+import { IFCPROJECT } from 'web-ifc';
+
+/* ------------------------------ Projekteinheiten --------------------------- */
+/*   IfcUnitAssignment (IfcSIUnit / IfcConversionBasedUnit) → Faktoren auf    */
+/*   SI (m, m², m³, rad). Intern wird in SI gerechnet, ausgegeben wird in     */
+/*   den gewählten Einheiten (OUTPUT_UNITS).                                  */
+
+export type QuantityKind = 'length' | 'area' | 'volume';
+
+export interface ProjectUnits {
+  length: number;
+  area: number;
+  volume: number;
+  planeAngle?: number; // nur wenn zugewiesen – sonst Grad/Radiant-Heuristik in profile-math.ts
+  mass?: number;       // kg, für IfcQuantityWeight
+  time?: number;       // s, für IfcQuantityTime
+}
+
+export const SI_UNITS: ProjectUnits = { length: 1, area: 1, volume: 1 };
+
+const PREFIX: Record<string, number> = {
+  EXA: 1e18, PETA: 1e15, TERA: 1e12, GIGA: 1e9, MEGA: 1e6, KILO: 1e3, HECTO: 1e2, DECA: 1e1,
+  DECI: 1e-1, CENTI: 1e-2, MILLI: 1e-3, MICRO: 1e-6, NANO: 1e-9, PICO: 1e-12, FEMTO: 1e-15, ATTO: 1e-18,
+};
+
+// Präfix wirkt vor dem Potenzieren: MILLI + SQUARE_METRE = (1e-3 m)²
+const SI_EXPONENT: Record<string, number> = { METRE: 1, SQUARE_METRE: 2, CUBIC_METRE: 3, RADIAN: 1, GRAM: 1, SECOND: 1 };
+
+// SI-Basis ist kg, nicht g: KILO + GRAM = 1
+const SI_BASE: Record<string, number> = { GRAM: 1e-3 };
+
+const KIND_BY_UNIT_TYPE: Record<string, keyof ProjectUnits> = {
+  LENGTHUNIT: 'length',
+  AREAUNIT: 'area',
+  VOLUMEUNIT: 'volume',
+  PLANEANGLEUNIT: 'planeAngle',
+  MASSUNIT: 'mass',
+  TIMEUNIT: 'time',
+};
+
+function enumValue(v: any): string {
+  return String(v?.value ?? v ?? '').replace(/\./g, '').toUpperCase();
+}
+
+/** IfcNamedUnit → Einheitenart + Faktor auf SI (undefined bei nicht unterstützten Einheiten). */
+export function namedUnitFactor(
+  api: any,
+  modelID: number,
+  unitId: number | undefined,
+  depth = 0,
+): { kind?: keyof ProjectUnits; factor: number } | undefined {
+  if (!unitId || depth > 8) return;
+  const u = api.GetLine(modelID, unitId);
+  if (!u) return;
+  const kind = KIND_BY_UNIT_TYPE[enumValue(u.UnitType)];
+
+  // IfcConversionBasedUnit: ConversionFactor = IfcMeasureWithUnit(Wert, Basiseinheit)
+  if (u.ConversionFactor?.value) {
+    const mwu = api.GetLine(modelID, u.ConversionFactor.value);
+    const v = Number(mwu?.ValueComponent?.value ?? mwu?.ValueComponent);
+    if (!isFinite(v) || v <= 0) return;
+    const inner = namedUnitFactor(api, modelID, mwu?.UnitComponent?.value, depth + 1);
+    return { kind, factor: v * (inner?.factor ?? 1) };
+  }
+
+  const exp = SI_EXPONENT[enumValue(u.Name)];
+  if (exp == null) return;
+  const prefix = PREFIX[enumValue(u.Prefix)] ?? 1;
+  return { kind, factor: Math.pow(prefix, exp) * (SI_BASE[enumValue(u.Name)] ?? 1) };
+}
+
+/** Faktor auf SI: eigene Unit des Werts (IfcNamedUnit) vor Projekteinheit. */
+export function siFactorFor(
+  api: any,
+  modelID: number,
+  kind: keyof ProjectUnits,
+  unitRef: any,
+  units: ProjectUnits,
+): number {
+  const own = unitRef?.value ? namedUnitFactor(api, modelID, unitRef.value) : undefined;
+  return own && own.kind === kind ? own.factor : units[kind] ?? 1;
+}
+
+/** Projekteinheiten aus IfcProject.UnitsInContext; fehlende Einträge = SI. */
+export function readProjectUnits(api: any, modelID: number): ProjectUnits {
+  const units: ProjectUnits = { ...SI_UNITS };
+  const vec = api.GetLineIDsWithType(modelID, IFCPROJECT);
+  const size = typeof vec?.size === 'function' ? vec.size() : 0;
+  if (!size) return units;
+
+  const project = api.GetLine(modelID, vec.get(0));
+  const ua = project?.UnitsInContext?.value ? api.GetLine(modelID, project.UnitsInContext.value) : null;
+  for (const ref of (ua?.Units ?? [])) {
+    const r = namedUnitFactor(api, modelID, ref?.value);
+    if (r?.kind) units[r.kind] = r.factor;
+  }
+  return units;
+}
+
+/* ---- Messwert-Typen (IfcPropertySingleValue.NominalValue u. a.) ---- */
+
+export function measureKind(typeName: string | undefined): QuantityKind | undefined {
+  switch (String(typeName ?? '').toUpperCase()) {
+    case 'IFCLENGTHMEASURE':
+    case 'IFCPOSITIVELENGTHMEASURE':
+    case 'IFCNONNEGATIVELENGTHMEASURE':
+      return 'length';
+    case 'IFCAREAMEASURE':
+      return 'area';
+    case 'IFCVOLUMEMEASURE':
+      return 'volume';
+  }
+}
+
+/* ---- Ausgabeeinheiten ---- */
+
+export interface OutputUnits {
+  length?: string;
+  area?: string;
+  volume?: string;
+}
+
+// factor: 1 Ausgabeeinheit in SI
+export const OUTPUT_UNITS: Record<string, { kind: QuantityKind; factor: number; label: string }> = {
+  m:   { kind: 'length', factor: 1, label: 'm' },
+  cm:  { kind: 'length', factor: 1e-2, label: 'cm' },
+  mm:  { kind: 'length', factor: 1e-3, label: 'mm' },
+  ft:  { kind: 'length', factor: 0.3048, label: 'ft' },
+  in:  { kind: 'length', factor: 0.0254, label: 'in' },
+  m2:  { kind: 'area', factor: 1, label: 'm²' },
+  cm2: { kind: 'area', factor: 1e-4, label: 'cm²' },
+  mm2: { kind: 'area', factor: 1e-6, label: 'mm²' },
+  ft2: { kind: 'area', factor: 0.09290304, label: 'ft²' },
+  m3:  { kind: 'volume', factor: 1, label: 'm³' },
+  cm3: { kind: 'volume', factor: 1e-6, label: 'cm³' },
+  mm3: { kind: 'volume', factor: 1e-9, label: 'mm³' },
+  l:   { kind: 'volume', factor: 1e-3, label: 'l' },
+  ft3: { kind: 'volume', factor: 0.028316846592, label: 'ft³' },
+};
+
+const DEFAULT_OUTPUT: Record<QuantityKind, string> = { length: 'm', area: 'm2', volume: 'm3' };
+
+function outputUnit(kind: QuantityKind, out?: OutputUnits) {
+  const def = OUTPUT_UNITS[out?.[kind] ?? ''];
+  return def?.kind === kind ? def : OUTPUT_UNITS[DEFAULT_OUTPUT[kind]];
+}
+
+export function fromSI(v: number, kind: QuantityKind, out?: OutputUnits): number {
+  return v / outputUnit(kind, out).factor;
+}
+
+export function unitLabel(kind: QuantityKind, out?: OutputUnits): string {
+  return outputUnit(kind, out).label;
+}
+
+/** "Area" → "Area [m²]" */
+export function withUnitSuffix(key: string, kind: QuantityKind, out?: OutputUnits): string {
+  return `${key} [${unitLabel(kind, out)}]`;
+}
+
+/** Auswahlliste für n8n-Optionen einer Einheitenart. */
+export function unitOptions(kind: QuantityKind): Array<{ name: string; value: string }> {
+  return Object.entries(OUTPUT_UNITS)
+    .filter(([, d]) => d.kind === kind)
+    .map(([value, d]) => ({ name: d.label, value }));
+}
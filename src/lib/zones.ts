@@ -0,0 +1,84 @@
+// src/lib/zones.ts
+
+import { IFCRELASSIGNSTOGROUP, IFCZONE } from 'web-ifc';
+import { forEachIdVector, toPrimitive } from './extract';
+
+/* ---------------------------------- Zonen ----------------------------------- */
+/*   IfcZone über IfcRelAssignsToGroup (Brandabschnitte, Wohnungen,           */
+/*   HLK-Zonen …). Verschachtelte Zonen werden transitiv aufgelöst: ein Raum   */
+/*   in "WE 1" ist auch Mitglied der Zone, die "WE 1" enthält.                */
+
+export interface ZoneInfo {
+  id: number;
+  name?: string;
+  globalId?: string;
+  kind?: string; // ObjectType, sonst LongName (IFC4) – bestimmt die Spalte "Zone.<kind>"
+}
+
+export interface ZoneIndex {
+  zones: Map<number, ZoneInfo>;
+  byMember: Map<number, number[]>; // Objekt-ID → Zonen-IDs (inkl. übergeordneter Zonen)
+}
+
+export const ZONE_COLUMN = 'Zone';
+
+export function buildZoneIndex(api: any, modelID: number): ZoneIndex {
+  const zones = new Map<number, ZoneInfo>();
+  forEachIdVector(api.GetLineIDsWithType(modelID, IFCZONE), (id) => {
+    const z = api.GetLine(modelID, id);
+    zones.set(id, {
+      id,
+      name: toPrimitive(z?.Name) ?? undefined,
+      globalId: toPrimitive(z?.GlobalId) ?? undefined,
+      kind: toPrimitive(z?.ObjectType) ?? toPrimitive(z?.LongName) ?? undefined,
+    });
+  });
+
+  // direkte Mitgliedschaften
+  const direct = new Map<number, Set<number>>();
+  if (zones.size) {
+    forEachIdVector(api.GetLineIDsWithType(modelID, IFCRELASSIGNSTOGROUP), (relId) => {
+      const rel = api.GetLine(modelID, relId);
+      const zoneId = rel?.RelatingGroup?.value;
+      if (!zoneId || !zones.has(zoneId)) return;
+      for (const o of (rel?.RelatedObjects ?? [])) {
+        if (!o?.value) continue;
+        if (!direct.has(o.value)) direct.set(o.value, new Set());
+        direct.get(o.value)!.add(zoneId);
+      }
+    });
+  }
+
+  // transitiv über Zonen in Zonen (Zyklen abgefangen)
+  const byMember = new Map<number, number[]>();
+  for (const [member, first] of direct) {
+    if (zones.has(member)) continue;
+    const seen = new Set<number>();
+    const stack = [...first];
+    while (stack.length) {
+      const z = stack.pop()!;
+      if (seen.has(z)) continue;
+      seen.add(z);
+      for (const parent of direct.get(z) ?? []) stack.push(parent);
+    }
+    byMember.set(member, [...seen]);
+  }
+  return { zones, byMember };
+}
+
+export function zoneColumnName(kind: string | undefined): string {
+  return kind ? `${ZONE_COLUMN}.${kind}` : ZONE_COLUMN;
+}
+
+/** Zonen eines Objekts → Spalten je Zonenart, mehrere Zonen gleicher Art mit "; " verbunden. */
+export function zoneColumns(index: ZoneIndex, objectId: number): Record<string, string> {
+  const out: Record<string, string[]> = {};
+  for (const zid of index.byMember.get(objectId) ?? []) {
+    const z = index.zones.get(zid);
+    if (!z) continue;
+    const col = zoneColumnName(z.kind);
+    if (!out[col]) out[col] = [];
+    out[col].push(z.name ?? z.globalId ?? `#${zid}`);
+  }
+  return Object.fromEntries(Object.entries(out).map(([k, v]) => [k, v.sort().join('; ')]));
+}
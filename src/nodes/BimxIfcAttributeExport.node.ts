@@ -8,21 +8,26 @@ import type {
 import { NodeOperationError } from 'n8n-workflow';
 
 import * as XLSX from 'xlsx';
-import { IfcAPI } from 'web-ifc';
 import * as WEBIFC from 'web-ifc';
-import { toBuffer } from '../utils/toBuffer';
+import { prepareBinaryOutput, readIfcInput } from '../utils/binary';
+import { failedItem } from '../utils/errors';
+import { type IfcValue, IfcModelReader, forEachIdVector, toPrimitive } from '../lib/reader';
+import { type Mat4, objectPlacementOrigin } from '../lib/placement';
+import { locationColumns, resolveLocation } from '../lib/spatial';
+import { classificationColumns } from '../lib/classification';
+import { MATERIAL_COLUMNS, materialColumns, materialPartRows } from '../lib/materials';
+import { type PhysicalQuantityKind, valueFromSI } from '../lib/extract';
+import {
+	type OutputUnits,
+	type ProjectUnits,
+	type QuantityKind,
+	unitOptions,
+	withUnitSuffix,
+} from '../lib/units';
 
 /* ------------------------------ Helpers ----------------------------------- */
 
-function forEachIdVector(vec: any, cb: (id: number) => void) {
-	const size =
-		typeof vec?.size === 'function' ? vec.size() :
-		Array.isArray(vec) ? vec.length : 0;
-	for (let i = 0; i < size; i++) {
-		const id = typeof vec?.get === 'function' ? vec.get(i) : vec[i];
-		if (id != null) cb(id as number);
-	}
-}
+const { IFCSPACE } = WEBIFC as any;
 
 function vectorSize(vec: any): number {
 	return typeof vec?.size === 'function' ? vec.size() : (Array.isArray(vec) ? vec.length : 0);
@@ -37,99 +42,82 @@ function getVectorFirstIds(vec: any, n = 5): number[] {
 	return out;
 }
 
-function toPrimitive(val: any): any {
-	let v = val;
-	while (v && typeof v === 'object' && 'value' in v && Object.keys(v).length === 1) v = v.value;
-	if (v && typeof v === 'object' && 'value' in v && typeof v.value !== 'object') v = v.value;
-	return v;
-}
+/* ------------------------------ Einheiten ---------------------------------- */
 
-const TYPE_NAME_BY_ID = new Map<number, string>(
-	Object.entries(WEBIFC)
-		.filter(([k, v]) => k.startsWith('IFC') && typeof v === 'number')
-		.map(([k, v]) => [v as number, k]),
-);
-
-const {
-	IFCRELDEFINESBYPROPERTIES,
-	IFCPROPERTYSET,
-	IFCELEMENTQUANTITY,
-	IFCSPACE,
-} = WEBIFC as any;
-
-function buildRelDefinesIndex(api: any, modelID: number) {
-	const byRelated = new Map<number, any[]>();
-	const vec = api.GetLineIDsWithType(modelID, IFCRELDEFINESBYPROPERTIES);
-	forEachIdVector(vec, (relId) => {
-		const rel = api.GetLine(modelID, relId);
-		const related = rel?.RelatedObjects ?? [];
-		const defId = rel?.RelatingPropertyDefinition?.value;
-		if (!defId) return;
-		const def = api.GetLine(modelID, defId);
-		for (const ro of related) {
-			const rid = ro?.value;
-			if (!rid) continue;
-			if (!byRelated.has(rid)) byRelated.set(rid, []);
-			byRelated.get(rid)!.push(def);
-		}
-	});
-	return byRelated;
+// Werte kommen in SI aus dem Reader → gewählte Ausgabeeinheit, optional mit Suffix im Key
+interface UnitContext {
+	project: ProjectUnits;
+	out: OutputUnits;
+	suffix: boolean;
 }
 
-function extractPsetProps(api: any, modelID: number, psetLine: any) {
-	const out: Record<string, any> = {};
-	const pName = toPrimitive(psetLine?.Name) ?? 'Pset';
-	for (const p of psetLine?.HasProperties ?? []) {
-		const pid = p?.value;
-		if (!pid) continue;
-		const pl = api.GetLine(modelID, pid);
-		const nm = toPrimitive(pl?.Name);
-		if (!nm) continue;
-		const val = toPrimitive(pl?.NominalValue ?? pl?.NominalValue?.value ?? pl?.value);
-		out[`${pName}.${nm}`] = val;
-	}
-	return out;
+function outputMeasure(
+	key: string,
+	value: any,
+	kind: QuantityKind | undefined,
+	units?: UnitContext,
+): [string, any] {
+	if (!units || !kind || value == null) return [key, value];
+	return [
+		units.suffix ? withUnitSuffix(key, kind, units.out) : key,
+		valueFromSI(value, kind, units.out),
+	];
 }
 
-function extractQuantities(api: any, modelID: number, qtoLine: any) {
-	const out: Record<string, any> = {};
-	const qName = toPrimitive(qtoLine?.Name) ?? 'Qto';
-	for (const q of qtoLine?.Quantities ?? []) {
-		const qid = q?.value;
-		if (!qid) continue;
-		const ql = api.GetLine(modelID, qid);
-		const nm = toPrimitive(ql?.Name);
-		const area = toPrimitive(ql?.AreaValue);
-		const vol = toPrimitive(ql?.VolumeValue);
-		const len = toPrimitive(ql?.LengthValue ?? ql?.PerimeterValue);
-		if (!nm) continue;
-		out[`${qName}.${nm}`] = area ?? vol ?? len ?? null;
+// Pset/Qto-Werte eines Datensatzes → Spalten; kinds je Ausgabespalte
+function valueColumns(
+	values: IfcValue[],
+	units: UnitContext,
+	kinds: Map<string, PhysicalQuantityKind>,
+): { cols: Record<string, any>; fromType: Set<string> } {
+	const typeCols: Record<string, any> = {};
+	const occCols: Record<string, any> = {};
+	for (const v of values) {
+		const [key, val] = outputMeasure(v.key, v.value, v.kind, units);
+		(v.source === 'type' ? typeCols : occCols)[key] = val;
+		const kind = v.quantityKind ?? (v.value != null ? v.kind : undefined);
+		if (kind) kinds.set(key, kind);
 	}
-	return out;
+	// Exemplarwerte haben Vorrang
+	return {
+		cols: { ...typeCols, ...occCols },
+		fromType: new Set(Object.keys(typeCols).filter((k) => !(k in occCols))),
+	};
 }
 
 /* ------------------------------ Scope/Parsing ------------------------------ */
 
 type Scope = 'spaces' | 'custom' | 'all';
 
-function parseTypeList(list: string): number[] {
-	return (list ?? '')
-		.split(',')
-		.map((s) => s.trim())
-		.filter(Boolean)
-		.map((name) => (WEBIFC as any)[name])
-		.filter((v): v is number => typeof v === 'number');
+// Namen ohne web-ifc-Konstante landen in unknown (→ warnings)
+function parseTypeList(list: string, unknown: string[] = []): number[] {
+	const types: number[] = [];
+	for (const name of (list ?? '').split(',').map((s) => s.trim()).filter(Boolean)) {
+		const v = (WEBIFC as any)[name];
+		if (typeof v === 'number') types.push(v);
+		else unknown.push(name);
+	}
+	return types;
 }
 
-function getIfcTypeConstantsForScope(scope: Scope, customList: string | undefined, excludeList: string | undefined): number[] {
-	const excludeSet = new Set<number>(parseTypeList(excludeList ?? ''));
+function getIfcTypeConstantsForScope(
+	scope: Scope,
+	customList: string | undefined,
+	excludeList: string | undefined,
+	warnings: string[] = [],
+): number[] {
+	const unknownExcluded: string[] = [];
+	const excludeSet = new Set<number>(parseTypeList(excludeList ?? '', unknownExcluded));
+	for (const name of unknownExcluded) warnings.push(`Unknown IFC type constant "${name}" in Exclude IFC Types`);
 
 	if (scope === 'spaces') {
 		const types = [IFCSPACE];
 		return types.filter((t) => !excludeSet.has(t));
 	}
 	if (scope === 'custom') {
-		const types = parseTypeList(customList ?? '');
+		const unknown: string[] = [];
+		const types = parseTypeList(customList ?? '', unknown);
+		for (const name of unknown) warnings.push(`Unknown IFC type constant "${name}" in Custom IFC Types`);
 		return types.filter((t) => !excludeSet.has(t));
 	}
 
@@ -177,6 +165,15 @@ export class BimxIfcAttributeExport implements INodeType {
 				default: 'data',
 				description: 'Name of the binary property that contains the IFC file',
 			},
+			{
+				displayName: 'ZIP Entry',
+				name: 'zipEntry',
+				type: 'string',
+				default: '',
+				placeholder: 'Architektur.ifc',
+				description:
+					'Only for .ifczip with several models: path or file name of the .ifc/.ifcXML to read. IFCZIP and ifcXML are detected by content.',
+			},
 			{
 				displayName: 'Entity Scope',
 				name: 'entityScope',
@@ -220,6 +217,87 @@ export class BimxIfcAttributeExport implements INodeType {
 				type: 'boolean',
 				default: true,
 			},
+			{
+				displayName: 'Include Placement (world coordinates)',
+				name: 'includePlacement',
+				type: 'boolean',
+				default: false,
+				description:
+					'Adds PlacementX/Y/Z: origin of the ObjectPlacement resolved through the full IfcLocalPlacement chain',
+			},
+			{
+				displayName: 'Inherit Type Properties',
+				name: 'typeProperties',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to merge property sets of the IfcTypeObject (IfcRelDefinesByType, HasPropertySets); occurrence values take precedence',
+			},
+			{
+				displayName: 'Include TypeName / TypeGlobalId',
+				name: 'typeColumns',
+				type: 'boolean',
+				default: false,
+			},
+			{
+				displayName: 'Mark Type Values',
+				name: 'markTypeValues',
+				type: 'boolean',
+				default: false,
+				displayOptions: { show: { typeProperties: [true] } },
+				description:
+					'Wide: column TypeValues lists keys inherited from the type. Long: column source = "type" or "occurrence".',
+			},
+			{
+				displayName: 'Include Location (spatial structure)',
+				name: 'includeLocation',
+				type: 'boolean',
+				default: false,
+				description:
+					'Adds Project, Site, Building, Storey, StoreyGlobalId, StoreyElevation and ParentSpace via IfcRelAggregates and IfcRelContainedInSpatialStructure (same columns as Space QTO)',
+			},
+			{
+				displayName: 'Include Classifications',
+				name: 'includeClassifications',
+				type: 'boolean',
+				default: false,
+				description:
+					'Adds one column set per classification system in the model (IfcRelAssociatesClassification): "Classification.<System>" (code), ".Name" and ".Edition" – same columns as Space QTO',
+			},
+			{
+				displayName: 'Include Materials',
+				name: 'includeMaterials',
+				type: 'boolean',
+				default: false,
+				description:
+					'Adds Material, MaterialSet, MaterialSetType, MaterialLayerCount and MaterialThickness (IfcRelAssociatesMaterial, falling back to the type object) plus a "Materials" sheet / "materials" JSON with one row per layer, constituent or profile',
+			},
+			{
+				displayName: 'Length Unit',
+				name: 'lengthUnit',
+				type: 'options',
+				options: unitOptions('length'),
+				default: 'm',
+				description:
+					'Output unit for length measures and placement. Project units (IfcUnitAssignment) are normalised to SI first.',
+			},
+			{ displayName: 'Area Unit', name: 'areaUnit', type: 'options', options: unitOptions('area'), default: 'm2' },
+			{ displayName: 'Volume Unit', name: 'volumeUnit', type: 'options', options: unitOptions('volume'), default: 'm3' },
+			{
+				displayName: 'Unit Suffix in Headers',
+				name: 'unitSuffix',
+				type: 'boolean',
+				default: false,
+				description: 'Whether to append the unit to measure columns, e.g. "Qto_SpaceBaseQuantities.NetFloorArea [m²]"',
+			},
+			{
+				displayName: 'Include Quantity Kinds',
+				name: 'quantityKinds',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to output the kind of each measure (length, area, volume, count, weight, time, number): a "quantityKinds" map in wide layout, a "kind" field per row in long layout',
+			},
 			{ displayName: 'Generate XLSX', name: 'xlsx', type: 'boolean', default: false },
 			{ displayName: 'Generate JSON', name: 'jsonOut', type: 'boolean', default: true },
 		],
@@ -230,152 +308,303 @@ export class BimxIfcAttributeExport implements INodeType {
 		const out: INodeExecutionData[] = [];
 
 		for (let i = 0; i < items.length; i++) {
-			const binProp = this.getNodeParameter('binaryProperty', i) as string;
-			const scope = this.getNodeParameter('entityScope', i, 'custom') as Scope;
-			const customList = this.getNodeParameter('customIfcTypes', i, '') as string;
-			const excludeList = this.getNodeParameter('excludeIfcTypes', i, '') as string;
-			const rowLayout = this.getNodeParameter('rowLayout', i, 'wide') as 'wide' | 'long';
-			const includeCore = this.getNodeParameter('includeCore', i, true) as boolean;
-			const wantXlsx = this.getNodeParameter('xlsx', i, false) as boolean;
-			const wantJson = this.getNodeParameter('jsonOut', i, true) as boolean;
-
-			const bin = items[i].binary?.[binProp];
-			if (!bin?.data) {
-				throw new NodeOperationError(this.getNode(), `Binary property "${binProp}" missing`, {
-					itemIndex: i,
-				});
+			try {
+				out.push(await exportItem(this, i));
+			} catch (e) {
+				out.push(failedItem(this, i, e, this.getNodeParameter('binaryProperty', i, 'data') as string));
 			}
+		}
 
-			const buffer = toBuffer(bin.data);
+		return this.prepareOutputData(out);
+	}
+}
 
-			const api = new IfcAPI();
-			await api.Init();
-			const modelID = api.OpenModel(new Uint8Array(buffer));
+/* ------------------------------ Export je Item ----------------------------- */
+
+async function exportItem(ctx: IExecuteFunctions, i: number): Promise<INodeExecutionData> {
+	const items = ctx.getInputData();
+	const binProp = ctx.getNodeParameter('binaryProperty', i) as string;
+	const scope = ctx.getNodeParameter('entityScope', i, 'custom') as Scope;
+	const customList = ctx.getNodeParameter('customIfcTypes', i, '') as string;
+	const excludeList = ctx.getNodeParameter('excludeIfcTypes', i, '') as string;
+	const rowLayout = ctx.getNodeParameter('rowLayout', i, 'wide') as 'wide' | 'long';
+	const includeCore = ctx.getNodeParameter('includeCore', i, true) as boolean;
+	const includePlacement = ctx.getNodeParameter('includePlacement', i, false) as boolean;
+	const includeLocation = ctx.getNodeParameter('includeLocation', i, false) as boolean;
+	const includeClassifications = ctx.getNodeParameter('includeClassifications', i, false) as boolean;
+	const includeMaterials = ctx.getNodeParameter('includeMaterials', i, false) as boolean;
+	const typeProperties = ctx.getNodeParameter('typeProperties', i, false) as boolean;
+	const typeColumns = ctx.getNodeParameter('typeColumns', i, false) as boolean;
+	const markTypeValues = typeProperties && (ctx.getNodeParameter('markTypeValues', i, false) as boolean);
+	const outUnits: OutputUnits = {
+		length: ctx.getNodeParameter('lengthUnit', i, 'm') as string,
+		area: ctx.getNodeParameter('areaUnit', i, 'm2') as string,
+		volume: ctx.getNodeParameter('volumeUnit', i, 'm3') as string,
+	};
+	const unitSuffix = ctx.getNodeParameter('unitSuffix', i, false) as boolean;
+	const withQuantityKinds = ctx.getNodeParameter('quantityKinds', i, false) as boolean;
+	const wantXlsx = ctx.getNodeParameter('xlsx', i, false) as boolean;
+	const wantJson = ctx.getNodeParameter('jsonOut', i, true) as boolean;
+
+	const bin = items[i].binary?.[binProp];
+	if (!bin) {
+		throw new NodeOperationError(ctx.getNode(), `Binary property "${binProp}" missing`, {
+			itemIndex: i,
+		});
+	}
 
-			try {
-				const relIndex = buildRelDefinesIndex(api as any, modelID);
-				const candidateTypeIds = getIfcTypeConstantsForScope(scope, customList, excludeList);
-
-				if (!candidateTypeIds.length) {
-					throw new NodeOperationError(
-						this.getNode(),
-						'No IFC types to export (check Entity Scope / Custom / Exclude lists).',
-						{ itemIndex: i },
-					);
-				}
+	const zipEntry = ctx.getNodeParameter('zipEntry', i, '') as string;
+	let buffer: Buffer;
+	try {
+		({ buffer } = await readIfcInput(ctx, i, binProp, zipEntry));
+	} catch (e) {
+		throw new NodeOperationError(ctx.getNode(), (e as Error).message, { itemIndex: i });
+	}
 
-				// Präsenz-Scan + Rooted-Filter: nur Typen mit Instanzen UND GlobalId
-				const presentVectors: Array<{ typeConst: number; vec: any }> = [];
-				for (const typeConst of candidateTypeIds) {
-					const vec = api.GetLineIDsWithType(modelID, typeConst);
-					if (vectorSize(vec) === 0) continue;
-					if (!isRootedEntitySample(api, modelID, typeConst, vec)) continue;
-					presentVectors.push({ typeConst, vec });
-				}
+	const reader = await IfcModelReader.open(new Uint8Array(buffer));
+	const { api, modelID } = reader;
+
+	try {
+		const placementCache = new Map<number, Mat4>();
+		const units: UnitContext = {
+			project: reader.units,
+			out: outUnits,
+			suffix: unitSuffix,
+		};
+		// Standort, Klassifikation und Material aus denselben Indizes wie Space QTO (SI)
+		const spatial = includeLocation ? reader.spatial : undefined;
+		const classificationIndex = includeClassifications ? reader.classifications : undefined;
+		const warnings: string[] = [];
+		const candidateTypeIds = getIfcTypeConstantsForScope(scope, customList, excludeList, warnings);
+
+		if (!candidateTypeIds.length) {
+			throw new NodeOperationError(
+				ctx.getNode(),
+				`No IFC types to export (check Entity Scope / Custom / Exclude lists).${
+					warnings.length ? ` ${warnings.join('; ')}` : ''
+				}`,
+				{ itemIndex: i },
+			);
+		}
 
-				if (!presentVectors.length) {
-					const emptyRes: INodeExecutionData = { json: { rows: [], count: 0, rowLayout, scope } };
-					out.push(emptyRes);
-					continue;
-				}
+		// Präsenz-Scan + Rooted-Filter: nur Typen mit Instanzen UND GlobalId
+		const presentVectors: Array<{ typeConst: number; vec: any }> = [];
+		for (const typeConst of candidateTypeIds) {
+			const vec = api.GetLineIDsWithType(modelID, typeConst);
+			if (vectorSize(vec) === 0) continue;
+			if (!isRootedEntitySample(api, modelID, typeConst, vec)) continue;
+			presentVectors.push({ typeConst, vec });
+		}
 
-				const wideRows: Array<Record<string, any>> = [];
-				const longRows: Array<Record<string, any>> = [];
+		if (!presentVectors.length) {
+			const emptyRes: INodeExecutionData = { json: { rows: [], count: 0, rowLayout, scope, warnings } };
+			return emptyRes;
+		}
 
-				for (const { typeConst, vec } of presentVectors) {
-					forEachIdVector(vec, (id) => {
-						const line = api.GetLine(modelID, id);
-						if (!line) return;
+		const wideRows: Array<Record<string, any>> = [];
+		const longRows: Array<Record<string, any>> = [];
+		const materialRows: Array<Record<string, any>> = [];
+		// Ausgabespalte → Mengenart (Placement/Elevation sind Längen)
+		const quantityKinds = new Map<string, PhysicalQuantityKind>();
+
+		for (const { typeConst, vec } of presentVectors) {
+			forEachIdVector(vec, (id) => {
+				const rec = reader.element(id, { type: typeColumns || includeMaterials, typeProperties });
+				const line = rec?.line;
+				if (!rec || !line) return;
+
+				// Fallback-Schutz: einzelne ohne GlobalId überspringen
+				if (!('GlobalId' in line)) return;
+
+				const typeName = rec.ifcClass;
+
+				const base: Record<string, any> = {
+					ExpressID: id,
+					Type: typeName,
+				};
+				if (includeCore) {
+					base['GlobalId'] = toPrimitive(line?.GlobalId);
+					base['Name'] = toPrimitive(line?.Name);
+					base['Description'] = toPrimitive(line?.Description);
+					base['ObjectType'] = toPrimitive(line?.ObjectType);
+					base['Tag'] = toPrimitive(line?.Tag ?? line?.Number);
+				}
 
-						// Fallback-Schutz: einzelne ohne GlobalId überspringen
-						if (!('GlobalId' in line)) return;
+				const placementCols: Record<string, any> = {};
+				if (includePlacement && line?.ObjectPlacement?.value) {
+					const o = objectPlacementOrigin(api as any, modelID, line, placementCache);
+					for (const [axis, v] of [['X', o.x], ['Y', o.y], ['Z', o.z]] as const) {
+						// Placement in Projekteinheiten
+						const [key, val] = outputMeasure(`Placement${axis}`, v * units.project.length, 'length', units);
+						placementCols[key] = val;
+						quantityKinds.set(key, 'length');
+					}
+				}
 
-						const typeName = TYPE_NAME_BY_ID.get(line.type) ?? `IFC#${line.type}`;
+				const locationCols: Record<string, any> = {};
+				if (spatial) {
+					for (const [k, v] of Object.entries(locationColumns(resolveLocation(spatial, id)))) {
+						const [key, val] = outputMeasure(k, v, k === 'StoreyElevation' ? 'length' : undefined, units);
+						locationCols[key] = val;
+						if (k === 'StoreyElevation') quantityKinds.set(key, 'length');
+					}
+				}
 
-						const base: Record<string, any> = {
-							ExpressID: id,
-							Type: typeName,
-						};
-						if (includeCore) {
-							base['GlobalId'] = toPrimitive(line?.GlobalId);
-							base['Name'] = toPrimitive(line?.Name);
-							base['Description'] = toPrimitive(line?.Description);
-							base['ObjectType'] = toPrimitive(line?.ObjectType);
-							base['Tag'] = toPrimitive(line?.Tag ?? line?.Number);
+				const classificationCols = classificationIndex
+					? classificationColumns(classificationIndex, id)
+					: {};
+
+				const materialCols: Record<string, any> = {};
+				if (includeMaterials) {
+					const info = reader.materialOf(id);
+					for (const [k, v] of Object.entries(materialColumns(info))) {
+						const [key, val] = outputMeasure(k, v, k === MATERIAL_COLUMNS.thickness ? 'length' : undefined, units);
+						materialCols[key] = val;
+						if (k === MATERIAL_COLUMNS.thickness) quantityKinds.set(key, 'length');
+					}
+					for (const part of materialPartRows(info)) {
+						const mr: Record<string, any> = { ExpressID: id, Type: typeName, GlobalId: toPrimitive(line?.GlobalId) };
+						for (const [k, v] of Object.entries(part)) {
+							const [key, val] = outputMeasure(k, v, k === 'LayerThickness' ? 'length' : undefined, units);
+							mr[key] = val;
 						}
+						materialRows.push(mr);
+					}
+				}
 
-						let psetCols: Record<string, any> = {};
-						const defs = relIndex.get(id) ?? [];
-						for (const def of defs) {
-							if (def?.type === IFCPROPERTYSET) {
-								psetCols = { ...psetCols, ...extractPsetProps(api as any, modelID, def) };
-							} else if (def?.type === IFCELEMENTQUANTITY) {
-								psetCols = { ...psetCols, ...extractQuantities(api as any, modelID, def) };
-							}
-						}
+				if (typeColumns && rec.typeObject) {
+					base['TypeName'] = rec.typeObject.name;
+					base['TypeGlobalId'] = rec.typeObject.globalId;
+				}
 
-						if (rowLayout === 'wide') {
-							wideRows.push({ ...base, ...psetCols });
-						} else {
-							if (includeCore) {
-								for (const k of ['GlobalId', 'Name', 'Description', 'ObjectType', 'Tag']) {
-									if (base[k] !== undefined) {
-										longRows.push({
-											ExpressID: id,
-											Type: typeName,
-											key: `Core.${k}`,
-											value: base[k],
-										});
-									}
-								}
-							}
-							for (const [k, v] of Object.entries(psetCols)) {
+				// Psets/Qtos inkl. geerbter Typwerte (Reader, SI) → Ausgabeeinheiten
+				const { cols: psetCols, fromType } = valueColumns(rec.values, units, quantityKinds);
+				if (markTypeValues && rowLayout === 'wide') {
+					psetCols['TypeValues'] = fromType.size ? [...fromType].join('; ') : null;
+				}
+
+				if (rowLayout === 'wide') {
+					wideRows.push({
+						...base,
+						...locationCols,
+						...classificationCols,
+						...materialCols,
+						...placementCols,
+						...psetCols,
+					});
+				} else {
+					if (includeCore) {
+						for (const k of ['GlobalId', 'Name', 'Description', 'ObjectType', 'Tag']) {
+							if (base[k] !== undefined) {
 								longRows.push({
 									ExpressID: id,
 									Type: typeName,
-									key: k,
-									value: v,
+									key: `Core.${k}`,
+									value: base[k],
 								});
 							}
 						}
-					});
-				}
-
-				const rows = rowLayout === 'wide' ? wideRows : longRows;
-
-				const result: INodeExecutionData = { json: {}, binary: {} };
-
-				// JSON zur Weiterverarbeitung
-				if (wantJson) {
-					result.json = {
-						rows,
-						rowLayout,
-						scope,
-						count: rows.length,
-					};
-				} else {
-					result.json = { count: rows.length, rowLayout, scope };
+					}
+					for (const k of ['TypeName', 'TypeGlobalId']) {
+						if (base[k] !== undefined) {
+							longRows.push({
+								ExpressID: id,
+								Type: typeName,
+								key: `Core.${k}`,
+								value: base[k],
+							});
+						}
+					}
+					for (const [k, v] of Object.entries(locationCols)) {
+						longRows.push({
+							ExpressID: id,
+							Type: typeName,
+							key: `Location.${k}`,
+							value: v,
+							...(withQuantityKinds && quantityKinds.has(k) ? { kind: quantityKinds.get(k) } : {}),
+						});
+					}
+					for (const [k, v] of Object.entries(classificationCols)) {
+						if (v == null) continue;
+						longRows.push({
+							ExpressID: id,
+							Type: typeName,
+							key: k,
+							value: v,
+						});
+					}
+					for (const [k, v] of Object.entries(materialCols)) {
+						if (v == null) continue;
+						longRows.push({
+							ExpressID: id,
+							Type: typeName,
+							key: k,
+							value: v,
+							...(withQuantityKinds && quantityKinds.has(k) ? { kind: quantityKinds.get(k) } : {}),
+						});
+					}
+					for (const [k, v] of Object.entries(placementCols)) {
+						longRows.push({
+							ExpressID: id,
+							Type: typeName,
+							key: `Placement.${k.slice('Placement'.length)}`,
+							value: v,
+							...(withQuantityKinds ? { kind: quantityKinds.get(k) } : {}),
+						});
+					}
+					for (const [k, v] of Object.entries(psetCols)) {
+						longRows.push({
+							ExpressID: id,
+							Type: typeName,
+							key: k,
+							value: v,
+							...(withQuantityKinds && quantityKinds.has(k) ? { kind: quantityKinds.get(k) } : {}),
+							...(markTypeValues ? { source: fromType.has(k) ? 'type' : 'occurrence' } : {}),
+						});
+					}
 				}
+			});
+		}
 
-				// XLSX als Binary
-				if (wantXlsx) {
-					const ws = XLSX.utils.json_to_sheet(rows);
-					const wb = XLSX.utils.book_new();
-					XLSX.utils.book_append_sheet(wb, ws, 'Attributes');
-					const xbuf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as unknown as Buffer;
-					const xbin = await this.helpers.prepareBinaryData(Buffer.from(xbuf));
-					xbin.fileName = 'ifc_attributes.xlsx';
-					xbin.mimeType =
-						'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-					(result.binary as any)['xlsx'] = xbin;
-				}
+		const rows = rowLayout === 'wide' ? wideRows : longRows;
+
+		const result: INodeExecutionData = { json: {}, binary: {} };
+
+		// JSON zur Weiterverarbeitung
+		if (wantJson) {
+			result.json = {
+				rows,
+				rowLayout,
+				scope,
+				count: rows.length,
+				warnings,
+			};
+			if (withQuantityKinds && rowLayout === 'wide') {
+				result.json.quantityKinds = Object.fromEntries(quantityKinds);
+			}
+			if (includeMaterials) result.json.materials = materialRows;
+		} else {
+			result.json = { count: rows.length, rowLayout, scope, warnings };
+		}
 
-				out.push(result);
-			} finally {
-				try { api.CloseModel(modelID); } catch {}
+		// XLSX als Binary
+		if (wantXlsx) {
+			const ws = XLSX.utils.json_to_sheet(rows);
+			const wb = XLSX.utils.book_new();
+			XLSX.utils.book_append_sheet(wb, ws, 'Attributes');
+			if (includeMaterials) {
+				XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(materialRows), 'Materials');
 			}
+			(result.binary as any)['xlsx'] = await prepareBinaryOutput(
+				ctx,
+				(p) => XLSX.writeFile(wb, p, { bookType: 'xlsx' }),
+				'ifc_attributes.xlsx',
+				'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+			);
 		}
 
-		return this.prepareOutputData(out);
+		return result;
+	} finally {
+		reader.release();
 	}
 }
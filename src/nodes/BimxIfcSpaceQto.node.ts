@@ -2,10 +2,31 @@
 import type { IExecuteFunctions, INodeType, INodeTypeDescription } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
 import * as XLSX from 'xlsx';
-import { runQtoOnIFC, type QtoOptions } from '../lib/compute';
+import { runQtoReport, type QtoOptions, type QtoReport } from '../lib/compute';
+import { type IfcInput, prepareBinaryOutput, readIfcInput } from '../utils/binary';
+import { failedItem } from '../utils/errors';
+import { unitOptions } from '../lib/units';
+import { ELEMENT_CLASSES, elementClassFor } from '../lib/element-quantities';
+import {
+  AGGREGATES,
+  type Aggregate,
+  type SummaryTable,
+  buildSummary,
+  summarizeRows,
+  summarySheetName,
+} from '../lib/summary';
+import {
+  type Din277Report,
+  type Din277Rule,
+  DIN277_AREA_COLUMN,
+  DIN277_CATEGORIES,
+  DIN277_COLUMN,
+  buildDin277Report,
+} from '../lib/din277';
 
 interface ExtraParam { paramName: string }
 interface RenameMap { parameterName: string; newName: string }
+interface SummaryGroup { groupBy: string }
 
 export class BimxIfcSpaceQto implements INodeType {
   description: INodeTypeDescription = {
@@ -14,7 +35,7 @@ export class BimxIfcSpaceQto implements INodeType {
     icon: 'file:BIMX.svg', // wichtig: als String belassen
     group: ['transform'],
     version: 1,
-    description: 'Binary IFC in → XLSX/TSV out (Area/Volume of IfcSpaces via web-ifc)',
+    description: 'Binary IFC in → XLSX/TSV out (Area/Volume of IfcSpaces or element quantities via web-ifc)',
     defaults: { name: 'BIM X – IFC Space QTO' },
     inputs: ['main'],
     outputs: ['main'],
@@ -26,6 +47,37 @@ export class BimxIfcSpaceQto implements INodeType {
         default: 'data',
         description: 'Name of the binary property that contains the IFC file',
       },
+      {
+        displayName: 'ZIP Entry',
+        name: 'zipEntry',
+        type: 'string',
+        default: '',
+        placeholder: 'Architektur.ifc',
+        description:
+          'Nur für .ifczip mit mehreren Modellen: Pfad oder Dateiname der zu lesenden .ifc/.ifcXML. IFCZIP und ifcXML werden am Inhalt erkannt.',
+      },
+      {
+        displayName: 'Entity Class',
+        name: 'entityType',
+        type: 'options',
+        default: 'IFCSPACE',
+        options: [
+          { name: 'IfcSpace', value: 'IFCSPACE' },
+          ...Object.entries(ELEMENT_CLASSES).map(([value, c]) => ({ name: c.label, value })),
+          { name: 'Custom', value: 'custom' },
+        ],
+        description:
+          'Bauteile (inkl. Subtypen) mit klassenspezifischen Mengenspalten aus Qto_*BaseQuantities, Geometrie als Fallback',
+      },
+      {
+        displayName: 'Custom IFC Class',
+        name: 'customEntityType',
+        type: 'string',
+        placeholder: 'IFCRAILING',
+        default: '',
+        description: 'Web-ifc-Konstante; generische Spalten Area/Volume',
+        displayOptions: { show: { entityType: ['custom'] } },
+      },
       { displayName: 'Generate XLSX', name: 'xlsx', type: 'boolean', default: true },
       { displayName: 'Generate TSV (comma decimal)', name: 'tsv', type: 'boolean', default: true },
       {
@@ -35,6 +87,14 @@ export class BimxIfcSpaceQto implements INodeType {
         typeOptions: { minValue: 0, maxValue: 10 },
         default: 8,
       },
+      {
+        displayName: 'Combine Models',
+        name: 'combineModels',
+        type: 'boolean',
+        default: false,
+        description:
+          'Alle Eingabe-Items (Fachmodelle, ein Modell je Gebäude) in eine gemeinsame Arbeitsmappe/JSON: Spalten ModelIndex, SourceFile, Schema, vereinheitlichte Spalten, Blatt "Models" und Zusammenfassungen je Modell. Einstellungen vom ersten Item.',
+      },
 
       // ---- Options (Add options) ----
       {
@@ -44,8 +104,140 @@ export class BimxIfcSpaceQto implements INodeType {
         default: {},
         options: [
           { displayName: 'All Parameters', name: 'allParams', type: 'boolean', default: false },
+          {
+            displayName: 'Inherit Type Properties',
+            name: 'typeProperties',
+            type: 'boolean',
+            default: false,
+            description: 'Psets/Qtos des IfcTypeObject (IfcRelDefinesByType) übernehmen, Exemplarwerte haben Vorrang',
+          },
+          { displayName: 'Include TypeName / TypeGlobalId', name: 'typeColumns', type: 'boolean', default: false },
+          {
+            displayName: 'Mark Type Values',
+            name: 'markTypeValues',
+            type: 'boolean',
+            default: false,
+            description: 'Spalte TypeValues mit den Keys, deren Wert vom Typ geerbt wurde',
+          },
           { displayName: 'Use Geometry Fallback', name: 'useGeometry', type: 'boolean', default: false },
           { displayName: 'Force Geometry', name: 'forceGeometry', type: 'boolean', default: false },
+          {
+            displayName: 'Geometry Mode',
+            name: 'geometryMode',
+            type: 'options',
+            default: 'representation',
+            options: [
+              { name: 'Representation', value: 'representation' },
+              { name: 'Mesh', value: 'mesh' },
+              { name: 'Representation then Mesh', value: 'representationThenMesh' },
+            ],
+            description:
+              'Quelle für Area/Volume bei Geometrie-Fallback. Mesh trianguliert über web-ifc (auch BRep-Räume), Fehler nur pro Space. Spalte GeometrySource zeigt den genutzten Pfad.',
+          },
+          {
+            displayName: 'Area Representations (order)',
+            name: 'areaRepresentations',
+            type: 'string',
+            default: 'FootPrint, Body, Box',
+            description:
+              'RepresentationIdentifier/-Type in Präferenzreihenfolge für Area. Es wird genau eine Representation genutzt (keine Summe), Spalte AreaRepresentation.',
+          },
+          {
+            displayName: 'Volume Representations (order)',
+            name: 'volumeRepresentations',
+            type: 'string',
+            default: 'Body, Box',
+            description:
+              'RepresentationIdentifier/-Type in Präferenzreihenfolge für Volume und Höhen, Spalte VolumeRepresentation.',
+          },
+          {
+            displayName: 'Coordinate To Origin',
+            name: 'coordinateToOrigin',
+            type: 'boolean',
+            default: false,
+            description:
+              'web-ifc COORDINATE_TO_ORIGIN: Mesh-Geometrie um den Ursprung verschieben (Georeferenzierung mit großen Koordinaten, Mesh-Modus).',
+          },
+          {
+            displayName: 'Circle Segments',
+            name: 'circleSegments',
+            type: 'number',
+            default: 0,
+            typeOptions: { minValue: 0 },
+            description:
+              'web-ifc CIRCLE_SEGMENTS: Segmente je Kreis bei der Mesh-Erzeugung (0 = web-ifc Standard). Höher = genauere Rundungen, mehr Speicher.',
+          },
+          {
+            displayName: 'Finishing Surfaces',
+            name: 'surfaces',
+            type: 'boolean',
+            default: false,
+            description:
+              'Spalten Perimeter, GrossWallArea (Umfang × lichte Höhe), NetWallArea (abzgl. Öffnungen aus IfcRelSpaceBoundary) und CeilingArea. Ohne Geometrie aus Qto_SpaceBaseQuantities.',
+          },
+          {
+            displayName: 'Space Boundaries',
+            name: 'boundaries',
+            type: 'boolean',
+            default: false,
+            description:
+              'IfcRelSpaceBoundary (1st/2nd Level): Anzahl und Flächen begrenzender Wände, Decken, Türen und Fenster, WindowToFloorRatio sowie Blatt "Boundaries" im Long-Format',
+          },
+          {
+            displayName: 'Zone Membership',
+            name: 'zones',
+            type: 'boolean',
+            default: false,
+            description:
+              'IfcZone über IfcRelAssignsToGroup: je Zonenart (ObjectType) eine Spalte "Zone.<Art>", mehrere Zonen mit "; " verbunden',
+          },
+          {
+            displayName: 'Zones Sheet',
+            name: 'zoneSummary',
+            type: 'boolean',
+            default: false,
+            description: 'Blatt "Zones" mit Anzahl, Area und Volume je Zone (z. B. Wohnflächen, Brandabschnitte)',
+          },
+          {
+            displayName: 'Classifications',
+            name: 'classifications',
+            type: 'boolean',
+            default: false,
+            description:
+              'IfcClassificationReference (Uniclass, OmniClass, eBKP-H, DIN 276 …): je System Spalten "Classification.<System>", ".Name", ".Edition"',
+          },
+          {
+            displayName: 'Materials',
+            name: 'materials',
+            type: 'boolean',
+            default: false,
+            description:
+              'IfcRelAssociatesMaterial (Material, LayerSet(Usage), ConstituentSet, ProfileSet; sonst vom Typobjekt): Spalten Material, MaterialSet, MaterialLayerCount, MaterialThickness sowie Blatt "Materials" mit einer Zeile je Schicht',
+          },
+          {
+            displayName: 'Length Unit',
+            name: 'lengthUnit',
+            type: 'options',
+            default: 'm',
+            options: unitOptions('length'),
+            description: 'Ausgabeeinheit für Längen/Höhen. Projekteinheiten (IfcUnitAssignment) werden vorher auf SI normiert.',
+          },
+          { displayName: 'Area Unit', name: 'areaUnit', type: 'options', default: 'm2', options: unitOptions('area') },
+          { displayName: 'Volume Unit', name: 'volumeUnit', type: 'options', default: 'm3', options: unitOptions('volume') },
+          {
+            displayName: 'Unit Suffix in Headers',
+            name: 'unitSuffix',
+            type: 'boolean',
+            default: false,
+            description: 'Z. B. "Area [m²]" statt "Area"',
+          },
+          {
+            displayName: 'Include Quantity Kinds',
+            name: 'quantityKinds',
+            type: 'boolean',
+            default: false,
+            description: 'Mengenart je Spalte (length, area, volume, count, weight, time, number) als "quantityKinds" im JSON',
+          },
           {
             displayName: 'Extra Parameters',
             name: 'extraParams',
@@ -63,12 +255,103 @@ export class BimxIfcSpaceQto implements INodeType {
                     type: 'string',
                     default: '',
                     description:
-                      'Z. B. Space.Name oder Pset_SpaceCommon.WallCovering oder Qto_SpaceBaseQuantities.NetFloorArea',
+                      'Z. B. Space.Name, Element.PredefinedType, Pset_SpaceCommon.WallCovering oder Qto_SpaceBaseQuantities.NetFloorArea',
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            displayName: 'DIN 277 Classification',
+            name: 'din277',
+            type: 'fixedCollection',
+            typeOptions: { multipleValues: true },
+            default: {},
+            description:
+              'Regeln in Reihenfolge, erste Übereinstimmung gewinnt. Spalten DIN277/DIN277Area, Blätter "DIN 277" (je Gebäude und Geschoss) und "DIN 277 Unmapped". Nur für IfcSpace.',
+            options: [
+              {
+                name: 'rule',
+                displayName: 'Rule',
+                values: [
+                  {
+                    displayName: 'Category',
+                    name: 'category',
+                    type: 'options',
+                    default: 'NUF 1',
+                    options: DIN277_CATEGORIES.map(c => ({ name: c.name, value: c.value })),
+                  },
+                  {
+                    displayName: 'Match On',
+                    name: 'source',
+                    type: 'options',
+                    default: 'name',
+                    options: [
+                      { name: 'Name', value: 'name' },
+                      { name: 'LongName', value: 'longName' },
+                      { name: 'ObjectType', value: 'objectType' },
+                      { name: 'Property', value: 'property' },
+                    ],
+                  },
+                  {
+                    displayName: 'Property',
+                    name: 'property',
+                    type: 'string',
+                    default: '',
+                    placeholder: 'Pset_SpaceCommon.Category',
+                    displayOptions: { show: { source: ['property'] } },
+                  },
+                  {
+                    displayName: 'Pattern',
+                    name: 'pattern',
+                    type: 'string',
+                    default: '',
+                    placeholder: '^(Büro|Office)',
+                    description: 'Regex (ohne /…/ case-insensitive), z. B. ^Flur|Treppe',
                   },
                 ],
               },
             ],
           },
+          {
+            displayName: 'Summary Group By',
+            name: 'summaryGroups',
+            type: 'fixedCollection',
+            typeOptions: { multipleValues: true },
+            default: {},
+            options: [
+              {
+                name: 'group',
+                displayName: 'Group',
+                values: [
+                  {
+                    displayName: 'Group By',
+                    name: 'groupBy',
+                    type: 'string',
+                    default: 'Storey',
+                    description:
+                      'Spalte der Ergebniszeilen (nach Rename), z. B. Storey, Project oder Pset_SpaceCommon.Category. Mehrere Schlüssel mit "+" kombinieren. Je Eintrag ein eigenes XLSX-Blatt.',
+                  },
+                ],
+              },
+            ],
+          },
+          {
+            displayName: 'Summary Aggregates',
+            name: 'summaryAggregates',
+            type: 'multiOptions',
+            default: ['sum'],
+            options: AGGREGATES.map(a => ({ name: a, value: a })),
+            description: 'Aggregate je numerischer Spalte, Spaltenname z. B. "Area (sum)"',
+          },
+          {
+            displayName: 'Summary Columns',
+            name: 'summaryColumns',
+            type: 'string',
+            default: '',
+            placeholder: 'Area, Volume',
+            description: 'Nur diese numerischen Spalten aggregieren (leer = alle)',
+          },
           {
             displayName: 'Rename',
             name: 'rename',
@@ -95,79 +378,344 @@ export class BimxIfcSpaceQto implements INodeType {
     const items = this.getInputData();
     const out: any[] = [];
 
-    for (let i = 0; i < items.length; i++) {
-      const binProp = this.getNodeParameter('binaryProperty', i) as string;
-      const wantXlsx = this.getNodeParameter('xlsx', i) as boolean;
-      const wantTsv = this.getNodeParameter('tsv', i) as boolean;
-      const round = this.getNodeParameter('round', i) as number;
-      const options = (this.getNodeParameter('options', i, {}) as any) ?? {};
-
-      const bin = items[i].binary?.[binProp];
-      if (!bin?.data) {
-        throw new NodeOperationError(this.getNode(), `Binary property "${binProp}" missing`, { itemIndex: i });
+    const combine = items.length > 0 && (this.getNodeParameter('combineModels', 0, false) as boolean);
+    if (combine) {
+      // fehlerhafte Modelle (continueOnFail) als eigene Items nach der Arbeitsmappe
+      const results: ModelResult[] = [];
+      const failed: any[] = [];
+      for (let i = 0; i < items.length; i++) {
+        try {
+          results.push(await qtoForItem(this, i));
+        } catch (e) {
+          failed.push(failedItem(this, i, e, this.getNodeParameter('binaryProperty', i, 'data') as string));
+        }
       }
+      if (results.length) out.push(await combinedOutput(this, results));
+      out.push(...failed);
+      return this.prepareOutputData(out);
+    }
 
-      const buffer = Buffer.from(bin.data as string, 'base64');
-
-      const extraParams: string[] = Array.isArray(options.extraParams?.param)
-        ? (options.extraParams.param as ExtraParam[]).map(p => p.paramName).filter(Boolean)
-        : [];
-
-      const renameMap: Record<string, string> = Array.isArray(options.rename?.map)
-        ? (options.rename.map as RenameMap[]).reduce((acc, m) => {
-            if (m.parameterName && m.newName) acc[m.parameterName] = m.newName;
-            return acc;
-          }, {} as Record<string, string>)
-        : {};
-
-      const rows: Array<Record<string, any>> = await runQtoOnIFC(buffer, {
-        allParams: !!options.allParams,
-        useGeometry: !!options.useGeometry,
-        forceGeometry: !!options.forceGeometry,
-        extraParams,
-        renameMap,
-        round,
-      } as QtoOptions);
-
-      // Rundung auf alle numerischen Felder nochmals anwenden (UI-Konsistenz)
-      const roundVal = (v: any) => (typeof v === 'number' ? Number(v.toFixed(round)) : v);
-      const rowsRounded = rows.map((rw) => {
-        const o: Record<string, any> = {};
-        for (const [k, v] of Object.entries(rw)) o[k] = roundVal(v);
-        return o;
-      });
-
-      const newItem: any = { json: { count: rowsRounded.length }, binary: {} };
-
-      if (wantXlsx) {
-        const ws = XLSX.utils.json_to_sheet(rowsRounded);
-        const wb = XLSX.utils.book_new();
-        XLSX.utils.book_append_sheet(wb, ws, 'Spaces');
-        const xbuf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as unknown as Buffer;
-
-        const xbin = await this.helpers.prepareBinaryData(Buffer.from(xbuf));
-        xbin.fileName = 'spaces_qto.xlsx';
-        xbin.mimeType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-        newItem.binary['xlsx'] = xbin;
+    for (let i = 0; i < items.length; i++) {
+      try {
+        out.push(await singleOutput(this, await qtoForItem(this, i)));
+      } catch (e) {
+        out.push(failedItem(this, i, e, this.getNodeParameter('binaryProperty', i, 'data') as string));
       }
+    }
+
+    return this.prepareOutputData(out);
+  }
+}
 
-      if (wantTsv) {
-        const headers = Object.keys(rowsRounded[0] ?? {});
-        const lines = [
-          headers.join('\t'),
-          ...rowsRounded.map(rw =>
-            headers.map(h => String(rw[h] ?? '').replace('.', ',')).join('\t'),
-          ),
-        ];
-        const tbin = await this.helpers.prepareBinaryData(Buffer.from(lines.join('\n'), 'utf8'));
-        tbin.fileName = 'spaces_qto.tsv';
-        tbin.mimeType = 'text/tab-separated-values';
-        newItem.binary['tsv'] = tbin;
+/* ------------------------------ Auswertung je Item -------------------------- */
+
+interface ModelResult {
+  itemIndex: number;
+  sourceFile: string;
+  sheetName: string;
+  filePrefix: string;
+  options: any;
+  wantXlsx: boolean;
+  wantTsv: boolean;
+  report: QtoReport;
+  rowsRounded: Array<Record<string, any>>;
+  summary?: Record<string, SummaryTable>;
+  din277?: Din277Report;
+}
+
+async function qtoForItem(ctx: IExecuteFunctions, i: number): Promise<ModelResult> {
+  const items = ctx.getInputData();
+  const binProp = ctx.getNodeParameter('binaryProperty', i) as string;
+  const wantXlsx = ctx.getNodeParameter('xlsx', i) as boolean;
+  const wantTsv = ctx.getNodeParameter('tsv', i) as boolean;
+  const round = ctx.getNodeParameter('round', i) as number;
+  const entityParam = ctx.getNodeParameter('entityType', i, 'IFCSPACE') as string;
+  const entityType = entityParam === 'custom'
+    ? (ctx.getNodeParameter('customEntityType', i, '') as string).trim().toUpperCase()
+    : entityParam;
+  const options = (ctx.getNodeParameter('options', i, {}) as any) ?? {};
+
+  const bin = items[i].binary?.[binProp];
+  if (!bin) {
+    throw new NodeOperationError(ctx.getNode(), `Binary property "${binProp}" missing`, { itemIndex: i });
+  }
+
+  let input: IfcInput;
+  try {
+    input = await readIfcInput(ctx, i, binProp, ctx.getNodeParameter('zipEntry', i, '') as string);
+  } catch (e) {
+    throw new NodeOperationError(ctx.getNode(), (e as Error).message, { itemIndex: i });
+  }
+  const buffer = input.buffer;
+
+  if (!entityType) {
+    throw new NodeOperationError(ctx.getNode(), 'Custom IFC Class is empty', { itemIndex: i });
+  }
+  const isSpace = entityType === 'IFCSPACE';
+  const sheetName = isSpace ? 'Spaces' : elementClassFor(entityType).label.slice(0, 31);
+  const filePrefix = isSpace ? 'spaces' : sheetName.toLowerCase();
+
+  const extraParams: string[] = Array.isArray(options.extraParams?.param)
+    ? (options.extraParams.param as ExtraParam[]).map(p => p.paramName).filter(Boolean)
+    : [];
+
+  const renameMap: Record<string, string> = Array.isArray(options.rename?.map)
+    ? (options.rename.map as RenameMap[]).reduce((acc, m) => {
+        if (m.parameterName && m.newName) acc[m.parameterName] = m.newName;
+        return acc;
+      }, {} as Record<string, string>)
+    : {};
+
+  const din277Rules: Din277Rule[] = Array.isArray(options.din277?.rule)
+    ? (options.din277.rule as Din277Rule[]).filter(r => r.category && r.pattern)
+    : [];
+
+  let report: QtoReport;
+  try {
+    report = await runQtoReport(buffer, {
+      entityType,
+      allParams: !!options.allParams,
+      useGeometry: !!options.useGeometry,
+      forceGeometry: !!options.forceGeometry,
+      geometryMode: options.geometryMode ?? 'representation',
+      areaRepresentations: options.areaRepresentations,
+      volumeRepresentations: options.volumeRepresentations,
+      surfaces: !!options.surfaces,
+      units: { length: options.lengthUnit, area: options.areaUnit, volume: options.volumeUnit },
+      unitSuffix: !!options.unitSuffix,
+      din277: din277Rules,
+      boundaries: !!options.boundaries,
+      zones: !!options.zones,
+      zoneSummary: !!options.zoneSummary,
+      typeProperties: !!options.typeProperties,
+      typeColumns: !!options.typeColumns,
+      markTypeValues: !!options.markTypeValues,
+      quantityKinds: !!options.quantityKinds,
+      classifications: !!options.classifications,
+      materials: !!options.materials,
+      model: { coordinateToOrigin: options.coordinateToOrigin, circleSegments: options.circleSegments },
+      extraParams,
+      renameMap,
+      round,
+    } as QtoOptions);
+  } catch (e) {
+    throw new NodeOperationError(ctx.getNode(), (e as Error).message, { itemIndex: i });
+  }
+  const rows = report.rows;
+
+  // Rundung auf alle numerischen Felder nochmals anwenden (UI-Konsistenz)
+  const roundVal = (v: any) => (typeof v === 'number' ? Number(v.toFixed(round)) : v);
+  const rowsRounded = rows.map((rw) => {
+    const o: Record<string, any> = {};
+    for (const [k, v] of Object.entries(rw)) o[k] = roundVal(v);
+    return o;
+  });
+
+  // Gruppierte Summen (auf ungerundeten Zeilen, Ergebnis gerundet)
+  const groupBy: string[] = Array.isArray(options.summaryGroups?.group)
+    ? (options.summaryGroups.group as SummaryGroup[]).map(g => g.groupBy).filter(Boolean)
+    : [];
+  const summary = groupBy.length
+    ? buildSummary(rows, {
+        groupBy,
+        aggregates: options.summaryAggregates as Aggregate[] | undefined,
+        columns: String(options.summaryColumns ?? '').split(',').map(c => c.trim()).filter(Boolean),
+      })
+    : undefined;
+  if (summary) {
+    for (const table of Object.values(summary)) {
+      for (const rw of table) {
+        for (const [k, v] of Object.entries(rw)) rw[k] = roundVal(v);
       }
+    }
+  }
+
+  // DIN 277 je Gebäude/Geschoss – Spaltennamen nach Rename
+  const renamed = (k: string) => renameMap[k] ?? k;
+  const din277 = din277Rules.length && isSpace
+    ? buildDin277Report(rows, {
+        category: renamed(DIN277_COLUMN),
+        area: renamed(DIN277_AREA_COLUMN),
+        building: renamed('Building'),
+        storey: renamed('Storey'),
+      })
+    : undefined;
+  if (din277) {
+    din277.summary = din277.summary.map((rw) => {
+      const o: Record<string, any> = {};
+      for (const [k, v] of Object.entries(rw)) o[k] = roundVal(v);
+      return o;
+    });
+    const roundedOf = new Map(rows.map((rw, idx) => [rw, rowsRounded[idx]]));
+    din277.unmapped = din277.unmapped.map(rw => roundedOf.get(rw) ?? rw);
+  }
+
+  return {
+    itemIndex: i,
+    sourceFile: [bin.fileName ?? `model_${i}.ifc`, input.entry].filter(Boolean).join('/'),
+    sheetName,
+    filePrefix,
+    options,
+    wantXlsx,
+    wantTsv,
+    report,
+    rowsRounded,
+    summary,
+    din277,
+  };
+}
+
+/* ------------------------------ Ausgabe ------------------------------------- */
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function tsvBuffer(rows: Array<Record<string, any>>, headers = Object.keys(rows[0] ?? {})): Buffer {
+  const lines = [
+    headers.join('\t'),
+    ...rows.map(rw =>
+      headers.map(h => String(rw[h] ?? '').replace('.', ',')).join('\t'),
+    ),
+  ];
+  return Buffer.from(lines.join('\n'), 'utf8');
+}
+
+async function singleOutput(ctx: IExecuteFunctions, r: ModelResult) {
+  const { options, report, rowsRounded, summary, din277, sheetName, filePrefix } = r;
+
+  const newItem: any = { json: { count: rowsRounded.length, warnings: report.warnings }, binary: {} };
+  if (summary) newItem.json.summary = summary;
+  if (din277) newItem.json.din277 = din277;
+  if (options.boundaries) newItem.json.boundaries = report.boundaries;
+  if (options.materials) newItem.json.materials = report.materials;
+  if (options.zoneSummary) newItem.json.zones = report.zones;
+  if (report.quantityKinds) newItem.json.quantityKinds = report.quantityKinds;
 
-      out.push(newItem);
+  if (r.wantXlsx) {
+    const ws = XLSX.utils.json_to_sheet(rowsRounded);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, sheetName);
+    const used = new Set<string>([sheetName.toLowerCase()]);
+    if (din277) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(din277.summary), 'DIN 277');
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(din277.unmapped), 'DIN 277 Unmapped');
+      used.add('din 277').add('din 277 unmapped');
     }
+    if (options.boundaries) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.boundaries), 'Boundaries');
+      used.add('boundaries');
+    }
+    if (options.zoneSummary) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.zones), 'Zones');
+      used.add('zones');
+    }
+    if (options.materials) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(report.materials), 'Materials');
+      used.add('materials');
+    }
+    for (const [g, table] of Object.entries(summary ?? {})) {
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(table), summarySheetName(g, used));
+    }
+    newItem.binary['xlsx'] = await prepareBinaryOutput(
+      ctx, p => XLSX.writeFile(wb, p, { bookType: 'xlsx' }), `${filePrefix}_qto.xlsx`, XLSX_MIME,
+    );
+  }
 
-    return this.prepareOutputData(out);
+  if (r.wantTsv) {
+    newItem.binary['tsv'] = await prepareBinaryOutput(
+      ctx, tsvBuffer(rowsRounded), `${filePrefix}_qto.tsv`, 'text/tab-separated-values',
+    );
+  }
+
+  return newItem;
+}
+
+/* ---- Mehrere Modelle → eine Arbeitsmappe ---- */
+
+function modelColumns(r: ModelResult): Record<string, any> {
+  return { ModelIndex: r.itemIndex, SourceFile: r.sourceFile, Schema: r.report.schema ?? null };
+}
+
+// Spaltenvereinigung in Reihenfolge des ersten Auftretens; fehlende Werte = null
+function unionRows(rows: Array<Record<string, any>>): { headers: string[]; rows: Array<Record<string, any>> } {
+  const headers = [...new Set(rows.flatMap(rw => Object.keys(rw)))];
+  return {
+    headers,
+    rows: rows.map(rw => Object.fromEntries(headers.map(h => [h, rw[h] ?? null]))),
+  };
+}
+
+function tagged(results: ModelResult[], pick: (r: ModelResult) => Array<Record<string, any>> | undefined) {
+  return unionRows(results.flatMap(r => (pick(r) ?? []).map(rw => ({ ...modelColumns(r), ...rw }))));
+}
+
+async function combinedOutput(ctx: IExecuteFunctions, results: ModelResult[]) {
+  const first = results[0];
+  const { options, sheetName, filePrefix } = first;
+  const summaryColumns = String(options.summaryColumns ?? '').split(',').map(c => c.trim()).filter(Boolean);
+
+  const all = tagged(results, r => r.rowsRounded);
+  const models = summarizeRows(all.rows, 'ModelIndex + SourceFile + Schema', ['sum'], summaryColumns);
+  const din277 = results.some(r => r.din277)
+    ? { summary: tagged(results, r => r.din277?.summary).rows, unmapped: tagged(results, r => r.din277?.unmapped).rows }
+    : undefined;
+  const boundaries = options.boundaries ? tagged(results, r => r.report.boundaries).rows : undefined;
+  const zones = options.zoneSummary ? tagged(results, r => r.report.zones).rows : undefined;
+  const materials = options.materials ? tagged(results, r => r.report.materials).rows : undefined;
+
+  const newItem: any = {
+    json: {
+      count: all.rows.length,
+      models: results.map(r => ({
+        ...modelColumns(r),
+        count: r.rowsRounded.length,
+        ...(r.summary ? { summary: r.summary } : {}),
+        ...(r.din277 ? { din277: r.din277 } : {}),
+        warnings: r.report.warnings,
+      })),
+      warnings: results.flatMap(r => r.report.warnings.map(w => `${r.sourceFile}: ${w}`)),
+    },
+    binary: {},
+  };
+  if (din277) newItem.json.din277 = din277;
+  if (boundaries) newItem.json.boundaries = boundaries;
+  if (materials) newItem.json.materials = materials;
+  if (zones) newItem.json.zones = zones;
+  const kinds = results.filter(r => r.report.quantityKinds).map(r => r.report.quantityKinds);
+  if (kinds.length) newItem.json.quantityKinds = Object.assign({}, ...kinds);
+
+  if (first.wantXlsx) {
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(all.rows, { header: all.headers }), sheetName);
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(models), 'Models');
+    const used = new Set<string>([sheetName.toLowerCase(), 'models']);
+    const extra: Array<[string, Array<Record<string, any>> | undefined]> = [
+      ['DIN 277', din277?.summary],
+      ['DIN 277 Unmapped', din277?.unmapped],
+      ['Boundaries', boundaries],
+      ['Zones', zones],
+      ['Materials', materials],
+    ];
+    for (const [name, table] of extra) {
+      if (!table) continue;
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(table), name);
+      used.add(name.toLowerCase());
+    }
+    // Zusammenfassungen je Modell: "M0 By Storey", "M1 By Storey" …
+    for (const r of results) {
+      for (const [g, table] of Object.entries(r.summary ?? {})) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(table), summarySheetName(g, used, `M${r.itemIndex}`));
+      }
+    }
+    newItem.binary['xlsx'] = await prepareBinaryOutput(
+      ctx, p => XLSX.writeFile(wb, p, { bookType: 'xlsx' }), `${filePrefix}_qto_combined.xlsx`, XLSX_MIME,
+    );
+  }
+
+  if (first.wantTsv) {
+    newItem.binary['tsv'] = await prepareBinaryOutput(
+      ctx, tsvBuffer(all.rows, all.headers), `${filePrefix}_qto_combined.tsv`, 'text/tab-separated-values',
+    );
   }
+
+  return newItem;
 }
@@ -6,6 +6,8 @@ import type {
   INodeTypeDescription,
 } from 'n8n-workflow';
 import { NodeOperationError } from 'n8n-workflow';
+import { prepareBinaryOutput, readBinaryStream } from '../utils/binary';
+import { failedItem } from '../utils/errors';
 
 // exceljs als CommonJS laden (kompatibel ohne esModuleInterop)
 const ExcelJS = require('exceljs');
@@ -230,258 +232,255 @@ export class BimxRuleValidator implements INodeType {
     const items = this.getInputData();
     if (!items.length) return [items];
 
-    const source       = this.getNodeParameter('source', 0) as 'xlsx'|'json';
-    const binProp      = this.getNodeParameter('binaryProperty', 0, 'xlsx') as string;
-    const rulesParam   = (this.getNodeParameter('rules', 0, {}) as any)?.rule as RuleParam[] | undefined;
-    const guidField    = this.getNodeParameter('guidField', 0) as string;
-    const reportTitle  = this.getNodeParameter('reportTitle', 0) as string;
-    const genXlsx      = this.getNodeParameter('genXlsx', 0) as boolean;
-    const genJson      = this.getNodeParameter('genJson', 0) as boolean;
-    const genCsv       = this.getNodeParameter('genCsv', 0) as boolean;
-
-    const rules: RuleParam[] = Array.isArray(rulesParam) ? rulesParam : [];
-    if (!rules.length) {
-      throw new NodeOperationError(this.getNode(), 'No rules defined.');
+    try {
+      return await validateRules(this, items);
+    } catch (e) {
+      // Regeln laufen über alle Zeilen aus Item 0 – ein Fehler-Item statt Abbruch
+      return [[failedItem(this, 0, e, this.getNodeParameter('binaryProperty', 0, 'xlsx') as string)]];
     }
+  }
+}
 
-    // -------- Datenquelle laden -> rows (Array of objects), headers (string[])
-    let rows: Record<string, any>[] = [];
-    let headers: string[] = [];
+async function validateRules(ctx: IExecuteFunctions, items: INodeExecutionData[]): Promise<INodeExecutionData[][]> {
+  const source       = ctx.getNodeParameter('source', 0) as 'xlsx'|'json';
+  const binProp      = ctx.getNodeParameter('binaryProperty', 0, 'xlsx') as string;
+  const rulesParam   = (ctx.getNodeParameter('rules', 0, {}) as any)?.rule as RuleParam[] | undefined;
+  const guidField    = ctx.getNodeParameter('guidField', 0) as string;
+  const reportTitle  = ctx.getNodeParameter('reportTitle', 0) as string;
+  const genXlsx      = ctx.getNodeParameter('genXlsx', 0) as boolean;
+  const genJson      = ctx.getNodeParameter('genJson', 0) as boolean;
+  const genCsv       = ctx.getNodeParameter('genCsv', 0) as boolean;
+
+  const rules: RuleParam[] = Array.isArray(rulesParam) ? rulesParam : [];
+  if (!rules.length) {
+    throw new NodeOperationError(ctx.getNode(), 'No rules defined.');
+  }
 
-    if (source === 'xlsx') {
-      const bin = items[0].binary?.[binProp];
-      if (!bin?.data) throw new NodeOperationError(this.getNode(), `Binary property "${binProp}" not found`);
+  // -------- Datenquelle laden -> rows (Array of objects), headers (string[])
+  let rows: Record<string, any>[] = [];
+  let headers: string[] = [];
 
-      const buf = Buffer.from(bin.data as string, 'base64');
-      const wb = new ExcelJS.Workbook();
-      await wb.xlsx.load(buf);
-      const ws = wb.worksheets[0];
-      if (!ws) throw new NodeOperationError(this.getNode(), 'No worksheet found in XLSX.');
+  if (source === 'xlsx') {
+    const bin = items[0].binary?.[binProp];
+    if (!bin) throw new NodeOperationError(ctx.getNode(), `Binary property "${binProp}" not found`);
 
-      // Header aus erster Zeile
-      headers = [];
-      ws.getRow(1).eachCell((cell: any, col: number) => {
-        headers[col - 1] = toStringSafe(cell.value);
-      });
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.read(await readBinaryStream(ctx, 0, binProp));
+    const ws = wb.worksheets[0];
+    if (!ws) throw new NodeOperationError(ctx.getNode(), 'No worksheet found in XLSX.');
+
+    // Header aus erster Zeile
+    headers = [];
+    ws.getRow(1).eachCell((cell: any, col: number) => {
+      headers[col - 1] = toStringSafe(cell.value);
+    });
 
-      // Datenzeilen
-      rows = [];
-      ws.eachRow((row: any, idx: number) => {
-        if (idx === 1) return;
-        const obj: Record<string, any> = {};
-        row.eachCell((cell: any, col: number) => {
-          const key = headers[col - 1] ?? `COL_${col}`;
-          obj[key] = cell.value?.result ?? cell.value ?? null;
-        });
-        rows.push(obj);
+    // Datenzeilen
+    rows = [];
+    ws.eachRow((row: any, idx: number) => {
+      if (idx === 1) return;
+      const obj: Record<string, any> = {};
+      row.eachCell((cell: any, col: number) => {
+        const key = headers[col - 1] ?? `COL_${col}`;
+        obj[key] = cell.value?.result ?? cell.value ?? null;
       });
-    } else {
-      // JSON-Quelle: flexibel viele Formen akzeptieren
-      const j0 = items[0].json;
-      let arr: any[] | undefined;
-      if (Array.isArray(j0)) arr = j0;
-      else if (Array.isArray((j0 as any)?.rows)) arr = (j0 as any).rows;
-      else if (Array.isArray((j0 as any)?.data)) arr = (j0 as any).data;
-      else arr = [j0];
-
-      rows = arr.map((x) => (typeof x === 'object' && x != null ? x : { value: x })) as Record<string, any>[];
-      // Header heuristisch: Keys der ersten Zeile
-      headers = Array.from(new Set(rows.flatMap((r) => Object.keys(r))));
-    }
+      rows.push(obj);
+    });
+  } else {
+    // JSON-Quelle: flexibel viele Formen akzeptieren
+    const j0 = items[0].json;
+    let arr: any[] | undefined;
+    if (Array.isArray(j0)) arr = j0;
+    else if (Array.isArray((j0 as any)?.rows)) arr = (j0 as any).rows;
+    else if (Array.isArray((j0 as any)?.data)) arr = (j0 as any).data;
+    else arr = [j0];
+
+    rows = arr.map((x) => (typeof x === 'object' && x != null ? x : { value: x })) as Record<string, any>[];
+    // Header heuristisch: Keys der ersten Zeile
+    headers = Array.from(new Set(rows.flatMap((r) => Object.keys(r))));
+  }
+
+  const totalRows = rows.length;
 
-    const totalRows = rows.length;
-
-    // -------- IFCTyp-Funktion (Type/ObjectType/IfcType unterstützen)
-    const getIfcType = (r: Record<string, any>) => {
-      return (r['IfcType'] ?? r['Type'] ?? r['ObjectType'] ?? r['IFC Type'] ?? r['IFCType'] ?? '') as string;
-    };
-
-    // -------- isUnique Vorberechnung je Regel/Feld
-    const duplicateIndexByRule = new Map<number, Set<number>>();
-    rules.forEach((rule, idx) => {
-      if (rule.operator !== 'isUnique') return;
-      const seen = new Map<string, number>();
-      const dups = new Set<number>();
-      for (let i = 0; i < rows.length; i++) {
-        const v = getByPath(rows[i], rule.field);
-        const k = toStringSafe(v);
-        if (!k) continue;
-        if (seen.has(k)) {
-          dups.add(i);
-          dups.add(seen.get(k)!);
-        } else {
-          seen.set(k, i);
-        }
+  // -------- IFCTyp-Funktion (Type/ObjectType/IfcType unterstützen)
+  const getIfcType = (r: Record<string, any>) => {
+    return (r['IfcType'] ?? r['Type'] ?? r['ObjectType'] ?? r['IFC Type'] ?? r['IFCType'] ?? '') as string;
+  };
+
+  // -------- isUnique Vorberechnung je Regel/Feld
+  const duplicateIndexByRule = new Map<number, Set<number>>();
+  rules.forEach((rule, idx) => {
+    if (rule.operator !== 'isUnique') return;
+    const seen = new Map<string, number>();
+    const dups = new Set<number>();
+    for (let i = 0; i < rows.length; i++) {
+      const v = getByPath(rows[i], rule.field);
+      const k = toStringSafe(v);
+      if (!k) continue;
+      if (seen.has(k)) {
+        dups.add(i);
+        dups.add(seen.get(k)!);
+      } else {
+        seen.set(k, i);
+      }
+    }
+    duplicateIndexByRule.set(idx, dups);
+  });
+
+  // -------- Regeln anwenden
+  const perRule: Array<{
+    index: number;
+    title: string;
+    field: string;
+    operator: Operator;
+    pattern?: string;
+    color?: string;
+    count: number;
+    guids: string[];
+    hits: Hit[];
+  }> = [];
+
+  let totalHits = 0;
+
+  for (let ri = 0; ri < rules.length; ri++) {
+    const r = rules[ri];
+    const hitList: Hit[] = [];
+    const allowedIfc = (r.ifcFilterCsv || '')
+      .split(',')
+      .map((s) => s.trim().toUpperCase())
+      .filter(Boolean);
+    const restrictIfc = allowedIfc.length > 0;
+
+    const dups = duplicateIndexByRule.get(ri);
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+
+      if (restrictIfc) {
+        const typ = String(getIfcType(row) || '').toUpperCase();
+        if (!allowedIfc.includes(typ)) continue;
       }
-      duplicateIndexByRule.set(idx, dups);
-    });
 
-    // -------- Regeln anwenden
-    const perRule: Array<{
-      index: number;
-      title: string;
-      field: string;
-      operator: Operator;
-      pattern?: string;
-      color?: string;
-      count: number;
-      guids: string[];
-      hits: Hit[];
-    }> = [];
-
-    let totalHits = 0;
-
-    for (let ri = 0; ri < rules.length; ri++) {
-      const r = rules[ri];
-      const hitList: Hit[] = [];
-      const allowedIfc = (r.ifcFilterCsv || '')
-        .split(',')
-        .map((s) => s.trim().toUpperCase())
-        .filter(Boolean);
-      const restrictIfc = allowedIfc.length > 0;
-
-      const dups = duplicateIndexByRule.get(ri);
-
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
-
-        if (restrictIfc) {
-          const typ = String(getIfcType(row) || '').toUpperCase();
-          if (!allowedIfc.includes(typ)) continue;
-        }
-
-        let isHit = false;
-        if (r.operator === 'isUnique') {
-          isHit = dups?.has(i) ?? false; // markiere Duplikate
-        } else {
-          const value = getByPath(row, r.field);
-          isHit = testOperator(value, r.operator, r.pattern);
-        }
-
-        if (isHit) {
-          const guid = toStringSafe(getByPath(row, guidField) ?? row[guidField]);
-          hitList.push({ rowIndex: i, guid: guid || undefined });
-        }
+      let isHit = false;
+      if (r.operator === 'isUnique') {
+        isHit = dups?.has(i) ?? false; // markiere Duplikate
+      } else {
+        const value = getByPath(row, r.field);
+        isHit = testOperator(value, r.operator, r.pattern);
       }
 
-      const guids = hitList.map((h) => h.guid).filter(Boolean) as string[];
-      perRule.push({
-        index: ri,
-        title: r.title || `Rule ${ri + 1}`,
-        field: r.field,
-        operator: r.operator,
-        pattern: r.pattern,
-        color: r.color,
-        count: hitList.length,
-        guids,
-        hits: hitList,
-      });
-      totalHits += hitList.length;
+      if (isHit) {
+        const guid = toStringSafe(getByPath(row, guidField) ?? row[guidField]);
+        hitList.push({ rowIndex: i, guid: guid || undefined });
+      }
     }
 
-    // -------- XLSX Report (optional)
-    const binaries: Record<string, any> = {};
-    if (genXlsx) {
-      const wb = new ExcelJS.Workbook();
-      const ws = wb.addWorksheet('Data');
+    const guids = hitList.map((h) => h.guid).filter(Boolean) as string[];
+    perRule.push({
+      index: ri,
+      title: r.title || `Rule ${ri + 1}`,
+      field: r.field,
+      operator: r.operator,
+      pattern: r.pattern,
+      color: r.color,
+      count: hitList.length,
+      guids,
+      hits: hitList,
+    });
+    totalHits += hitList.length;
+  }
 
-      // Header
-      const headerRow = headers.length ? headers : Array.from(new Set(rows.flatMap((r) => Object.keys(r))));
-      ws.addRow(headerRow);
+  // -------- XLSX Report (optional)
+  const binaries: Record<string, any> = {};
+  if (genXlsx) {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet('Data');
 
-      // Datensätze
-      rows.forEach((r) => {
-        const rowVals = headerRow.map((h) => (r[h] != null ? r[h] : ''));
-        ws.addRow(rowVals);
-      });
+    // Header
+    const headerRow = headers.length ? headers : Array.from(new Set(rows.flatMap((r) => Object.keys(r))));
+    ws.addRow(headerRow);
+
+    // Datensätze
+    rows.forEach((r) => {
+      const rowVals = headerRow.map((h) => (r[h] != null ? r[h] : ''));
+      ws.addRow(rowVals);
+    });
 
-      // Spaltenindex ermitteln
-      const colIndex = new Map<string, number>();
-      headerRow.forEach((h, i) => colIndex.set(h, i + 1));
-
-      // Zellen einfärben (rot) je Regel/Hit in Zielfeld-Spalte
-      for (const r of perRule) {
-        const col = colIndex.get(r.field);
-        if (!col) continue;
-        const fillColor = colorNameToArgb(r.color);
-        for (const h of r.hits) {
-          const excelRow = ws.getRow(h.rowIndex + 2); // +1 Header, +1 exceljs
-          const cell = excelRow.getCell(col);
-          cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fillColor } };
-        }
+    // Spaltenindex ermitteln
+    const colIndex = new Map<string, number>();
+    headerRow.forEach((h, i) => colIndex.set(h, i + 1));
+
+    // Zellen einfärben (rot) je Regel/Hit in Zielfeld-Spalte
+    for (const r of perRule) {
+      const col = colIndex.get(r.field);
+      if (!col) continue;
+      const fillColor = colorNameToArgb(r.color);
+      for (const h of r.hits) {
+        const excelRow = ws.getRow(h.rowIndex + 2); // +1 Header, +1 exceljs
+        const cell = excelRow.getCell(col);
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: fillColor } };
       }
+    }
 
-      // Summary
-      const ws2 = wb.addWorksheet('Summary');
-      ws2.addRow(['Title', 'Field', 'Operator', 'Pattern', 'Color', 'Hits']);
-      perRule.forEach((r) => {
-        ws2.addRow([r.title, r.field, r.operator, r.pattern ?? '', r.color ?? '', r.count]);
-      });
+    // Summary
+    const ws2 = wb.addWorksheet('Summary');
+    ws2.addRow(['Title', 'Field', 'Operator', 'Pattern', 'Color', 'Hits']);
+    perRule.forEach((r) => {
+      ws2.addRow([r.title, r.field, r.operator, r.pattern ?? '', r.color ?? '', r.count]);
+    });
 
-      const xbuf = await wb.xlsx.writeBuffer();
-      let xlsBuffer: Buffer;
-      if (Buffer.isBuffer(xbuf)) {
-        xlsBuffer = xbuf as Buffer;
-      } else if (xbuf instanceof ArrayBuffer) {
-        xlsBuffer = Buffer.from(new Uint8Array(xbuf));
-      } else {
-        // Fallback (Node bekommt hier eigentlich Buffer)
-        // @ts-ignore
-        xlsBuffer = Buffer.from(xbuf);
-      }
+    binaries['xlsx'] = await prepareBinaryOutput(
+      ctx,
+      (p) => wb.xlsx.writeFile(p),
+      `${slug(reportTitle) || 'validation'}.xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    );
+  }
 
-      const xbin = await this.helpers.prepareBinaryData(xlsBuffer);
-      xbin.fileName = `${slug(reportTitle) || 'validation'}.xlsx`;
-      xbin.mimeType = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
-      binaries['xlsx'] = xbin;
+  // -------- CSV per Rule (optional)
+  if (genCsv) {
+    for (const r of perRule) {
+      const lines = ['GUID', ...r.guids];
+      const cbuf = Buffer.from(lines.join('\n'), 'utf8');
+      const key = `csv_${r.index}`;
+      binaries[key] = await prepareBinaryOutput(
+        ctx, cbuf, `${slug(r.title || `rule-${r.index + 1}`)}.csv`, 'text/csv',
+      );
     }
+  }
 
-    // -------- CSV per Rule (optional)
-    if (genCsv) {
-      for (const r of perRule) {
-        const lines = ['GUID', ...r.guids];
-        const cbuf = Buffer.from(lines.join('\n'), 'utf8');
-        const key = `csv_${r.index}`;
-        const bin = await this.helpers.prepareBinaryData(cbuf);
-        bin.fileName = `${slug(r.title || `rule-${r.index + 1}`)}.csv`;
-        bin.mimeType = 'text/csv';
-        binaries[key] = bin;
-      }
-    }
+  // -------- JSON Meta (optional)
+  const outJson: any = {
+    title: reportTitle,
+    totalRows,
+    totalRules: rules.length,
+    totalHits,
+    perRule: perRule.map((r) => ({
+      index: r.index,
+      title: r.title,
+      field: r.field,
+      operator: r.operator,
+      pattern: r.pattern,
+      color: r.color,
+      count: r.count,
+      guids: r.guids,
+    })),
+    // Alias für Downstream (z.B. SmartViews Builder)
+    rules: perRule.map((r) => ({
+      title: r.title,
+      field: r.field,
+      operator: r.operator,
+      pattern: r.pattern,
+      color: r.color,
+      guids: r.guids,
+    })),
+    guidField,
+  };
 
-    // -------- JSON Meta (optional)
-    const outJson: any = {
-      title: reportTitle,
-      totalRows,
-      totalRules: rules.length,
-      totalHits,
-      perRule: perRule.map((r) => ({
-        index: r.index,
-        title: r.title,
-        field: r.field,
-        operator: r.operator,
-        pattern: r.pattern,
-        color: r.color,
-        count: r.count,
-        guids: r.guids,
-      })),
-      // Alias für Downstream (z.B. SmartViews Builder)
-      rules: perRule.map((r) => ({
-        title: r.title,
-        field: r.field,
-        operator: r.operator,
-        pattern: r.pattern,
-        color: r.color,
-        guids: r.guids,
-      })),
-      guidField,
-    };
-
-    const resultItem: INodeExecutionData = {
-      json: genJson ? outJson : { ok: true },
-      binary: Object.keys(binaries).length ? binaries : undefined,
-    };
-
-    return [[resultItem]];
-  }
+  const resultItem: INodeExecutionData = {
+    json: genJson ? outJson : { ok: true },
+    binary: Object.keys(binaries).length ? binaries : undefined,
+  };
+
+  return [[resultItem]];
 }
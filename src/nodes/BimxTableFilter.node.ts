@@ -11,6 +11,8 @@ import type {
 	INodeType,
 	INodeTypeDescription,
 } from 'n8n-workflow';
+import { prepareBinaryFile } from '../utils/binary';
+import { failedItem } from '../utils/errors';
 
 // exceljs als CommonJS (stabil in CJS-Builds)
 const ExcelJS = require('exceljs');
@@ -432,158 +434,191 @@ export class BimxTableFilter implements INodeType {
 			i < items.length;
 			i++
 		) {
-			const item = items[i];
-
-			const binaryKey =
-				(this.getNodeParameter(
-					'binaryProperty',
-					i,
-					'xlsx',
-				) as string) || 'xlsx';
-
-			const sheetParam =
-				(this.getNodeParameter(
-					'sheet',
-					i,
-					'',
-				) as string) || '';
-
-			// fixedCollection korrekt auslesen:
-			// n8n gibt bei multipleValues unter "rules" ein Objekt mit "rule" zurück.
-			// "rules.rule" ist das Array der einzelnen Regeln.
-			const rulesParam =
-				(this.getNodeParameter(
-					'rules.rule',
-					i,
-					[],
-				) as FilterRule[]) || [];
-
-			const logic =
-				(this.getNodeParameter(
-					'logic',
-					i,
-					'AND',
-				) as Logic) || 'AND';
-
-			const columnsStr =
-				(this.getNodeParameter(
-					'columns',
-					i,
-					'',
-				) as string) || '';
-
-			const chunkSize =
-				(this.getNodeParameter(
-					'chunkSize',
-					i,
-					5000,
-				) as number) || 5000;
-
-			const rules: FilterRule[] =
-				Array.isArray(
-					rulesParam,
-				)
-					? rulesParam.filter(
-							(r) =>
-								r &&
-								r.field,
-					  )
-					: [];
-
-			const wantedColumns =
-				columnsStr
-					? columnsStr
-							.split(',')
-							.map((s) =>
-								s.trim(),
-							)
-							.filter(
-								Boolean,
-							)
-					: undefined;
-
-			const bin =
-				item.binary?.[
-					binaryKey
-				] ||
-				item.binary
-					?.file ||
-				item.binary
-					?.data;
-
-			if (!bin) {
-				throw new Error(
-					`Binary property "${binaryKey}" nicht gefunden (verfügbar: ${
-						Object.keys(
-							item.binary ||
-								{},
-						).join(
-							', ',
-						) || '—'
-					})`,
+			try {
+				out.push(
+					await filterItem(
+						this,
+						i,
+					),
+				);
+			} catch (e) {
+				out.push(
+					failedItem(
+						this,
+						i,
+						e,
+						(this.getNodeParameter(
+							'binaryProperty',
+							i,
+							'xlsx',
+						) as string) || 'xlsx',
+					),
 				);
 			}
+		}
 
-			const buf =
-				await this.helpers.getBinaryDataBuffer(
-					i,
-					binaryKey,
-				);
+		return [out];
+	}
+}
 
-			const sheetNameOrIndex =
-				sheetParam === ''
-					? undefined
-					: /^\d+$/.test(
-							sheetParam,
-					  )
-					? Number(
-							sheetParam,
-					  )
-					: sheetParam;
-
-			const {
-				xlsxPath,
-				outRows,
-				headers,
-			} =
-				await filterExcelToXlsxStream(
-					buf,
-					sheetNameOrIndex,
-					rules,
-					logic,
-					wantedColumns,
-					chunkSize,
-				);
+/** ---------------------- Filter je Item ---------------------- **/
+async function filterItem(
+	ctx: IExecuteFunctions,
+	i: number,
+): Promise<INodeExecutionData> {
+	const item =
+		ctx.getInputData()[i];
+
+	const binaryKey =
+		(ctx.getNodeParameter(
+			'binaryProperty',
+			i,
+			'xlsx',
+		) as string) || 'xlsx';
+
+	const sheetParam =
+		(ctx.getNodeParameter(
+			'sheet',
+			i,
+			'',
+		) as string) || '';
+
+	// fixedCollection korrekt auslesen:
+	// n8n gibt bei multipleValues unter "rules" ein Objekt mit "rule" zurück.
+	// "rules.rule" ist das Array der einzelnen Regeln.
+	const rulesParam =
+		(ctx.getNodeParameter(
+			'rules.rule',
+			i,
+			[],
+		) as FilterRule[]) || [];
+
+	const logic =
+		(ctx.getNodeParameter(
+			'logic',
+			i,
+			'AND',
+		) as Logic) || 'AND';
+
+	const columnsStr =
+		(ctx.getNodeParameter(
+			'columns',
+			i,
+			'',
+		) as string) || '';
+
+	const chunkSize =
+		(ctx.getNodeParameter(
+			'chunkSize',
+			i,
+			5000,
+		) as number) || 5000;
+
+	const rules: FilterRule[] =
+		Array.isArray(
+			rulesParam,
+		)
+			? rulesParam.filter(
+					(r) =>
+						r &&
+						r.field,
+			  )
+			: [];
+
+	const wantedColumns =
+		columnsStr
+			? columnsStr
+					.split(',')
+					.map((s) =>
+						s.trim(),
+					)
+					.filter(
+						Boolean,
+					)
+			: undefined;
+
+	const bin =
+		item.binary?.[
+			binaryKey
+		] ||
+		item.binary
+			?.file ||
+		item.binary
+			?.data;
+
+	if (!bin) {
+		throw new Error(
+			`Binary property "${binaryKey}" nicht gefunden (verfügbar: ${
+				Object.keys(
+					item.binary ||
+						{},
+				).join(
+					', ',
+				) || '—'
+			})`,
+		);
+	}
 
-			const xbuf =
-				fs.readFileSync(
-					xlsxPath,
-				);
-			const b =
-				await this.helpers.prepareBinaryData(
-					xbuf,
-					'filtered.xlsx',
-					'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-				);
+	const buf =
+		await ctx.helpers.getBinaryDataBuffer(
+			i,
+			binaryKey,
+		);
 
-			const newItem: INodeExecutionData =
-				{
-					json: {
-						matches:
-							outRows,
-						headers,
-					},
-					binary: {
-						[binaryKey]:
-							b,
-					},
-				};
+	const sheetNameOrIndex =
+		sheetParam === ''
+			? undefined
+			: /^\d+$/.test(
+					sheetParam,
+			  )
+			? Number(
+					sheetParam,
+			  )
+			: sheetParam;
+
+	const {
+		xlsxPath,
+		outRows,
+		headers,
+	} =
+		await filterExcelToXlsxStream(
+			buf,
+			sheetNameOrIndex,
+			rules,
+			logic,
+			wantedColumns,
+			chunkSize,
+		);
 
-			out.push(
-				newItem,
+	// Ergebnis als Stream übergeben, Temp-Datei danach entfernen
+	let b;
+	try {
+		b =
+			await prepareBinaryFile(
+				ctx,
+				xlsxPath,
+				'filtered.xlsx',
+				'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
 			);
-		}
-
-		return [out];
+	} finally {
+		await fs.promises.rm(
+			xlsxPath,
+			{ force: true },
+		);
 	}
+
+	const newItem: INodeExecutionData =
+		{
+			json: {
+				matches:
+					outRows,
+				headers,
+			},
+			binary: {
+				[binaryKey]:
+					b,
+			},
+		};
+
+	return newItem;
 }
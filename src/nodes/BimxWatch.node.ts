@@ -5,6 +5,8 @@ import type {
   INodeType,
   INodeTypeDescription,
 } from 'n8n-workflow';
+import { prepareBinaryOutput } from '../utils/binary';
+import { failedItem } from '../utils/errors';
 
 function inferType(v: any): string {
   if (v === null || v === undefined) return 'null';
@@ -465,11 +467,13 @@ export class BimxWatch implements INodeType {
 </body>
 </html>`;
 
-      const buf = Buffer.from(html, 'utf8');
-      const bin = await this.helpers.prepareBinaryData(buf);
-      (bin as any).fileName = 'bimx_watch_preview.html';
-      (bin as any).mimeType = 'text/html';
-      (out2 as any).binary = { html: bin };
+      try {
+        const bin = await prepareBinaryOutput(this, Buffer.from(html, 'utf8'), 'bimx_watch_preview.html', 'text/html');
+        (out2 as any).binary = { html: bin };
+      } catch (e) {
+        // Durchreichen bleibt erhalten, der Fehler landet im Vorschau-Ausgang
+        return [outputMetaOnly ? [] : items, [failedItem(this, 0, e)]];
+      }
     }
 
     // output 1 (pass-through) + output 2 (meta/preview)
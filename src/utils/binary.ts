@@ -0,0 +1,155 @@
+// src/utils/binary.ts
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+import JSZip from 'jszip';
+import type { IBinaryData, IExecuteFunctions } from 'n8n-workflow';
+import { ifcXmlToStep, isIfcXml } from '../lib/ifcxml';
+import { toBuffer } from './toBuffer';
+
+/* ------------------------------ n8n Binärdaten ------------------------------ */
+/*   Im binaryDataMode "filesystem" bzw. "s3" ist binary.data nur eine        */
+/*   Referenz (id), nicht der Dateiinhalt. Gelesen wird deshalb immer über    */
+/*   die n8n-Helper, geschrieben über temporäre Dateien als Stream – große    */
+/*   Modelle und Tabellen laufen so nie durch Base64-Strings.                 */
+
+export function inputBinary(ctx: IExecuteFunctions, itemIndex: number, propertyName: string): IBinaryData | undefined {
+  return ctx.getInputData()[itemIndex]?.binary?.[propertyName];
+}
+
+/** Dateiinhalt als Buffer (IFC braucht ihn vollständig im Speicher). */
+export async function readBinaryBuffer(ctx: IExecuteFunctions, itemIndex: number, propertyName: string): Promise<Buffer> {
+  const bin = inputBinary(ctx, itemIndex, propertyName);
+  if (bin?.id && typeof ctx.helpers.getBinaryStream === 'function') {
+    return ctx.helpers.binaryToBuffer(await ctx.helpers.getBinaryStream(bin.id));
+  }
+  if (typeof ctx.helpers.getBinaryDataBuffer === 'function') {
+    return ctx.helpers.getBinaryDataBuffer(itemIndex, propertyName);
+  }
+  // ältere n8n-Versionen: Base64 im Item
+  return toBuffer(bin?.data ?? '');
+}
+
+/** Dateiinhalt als Stream – für Leser, die Streams verarbeiten (ExcelJS). */
+export async function readBinaryStream(ctx: IExecuteFunctions, itemIndex: number, propertyName: string): Promise<Readable> {
+  const bin = inputBinary(ctx, itemIndex, propertyName);
+  if (bin?.id && typeof ctx.helpers.getBinaryStream === 'function') {
+    return ctx.helpers.getBinaryStream(bin.id);
+  }
+  return Readable.from([await readBinaryBuffer(ctx, itemIndex, propertyName)]);
+}
+
+/* ------------------------------ IFC-Eingaben ------------------------------ */
+/*   .ifc (STEP), .ifczip (ZIP mit .ifc oder .ifcXML) und ifcXML werden am    */
+/*   Inhalt erkannt, nicht an der Dateiendung; ifcXML wird nach STEP          */
+/*   umgeschrieben, die Nodes sehen immer eine .ifc.                          */
+
+export type IfcInputFormat = 'ifc' | 'ifczip' | 'ifcxml';
+
+export interface IfcInput {
+  buffer: Buffer;
+  format: IfcInputFormat;
+  entry?: string;            // gewählte Datei im ZIP
+}
+
+const IFC_ENTRY = /\.(ifc|ifcxml|xml)$/i;
+
+/** ZIP-Container (PK\x03\x04, leeres Archiv PK\x05\x06). */
+export function isZip(buffer: Uint8Array): boolean {
+  return buffer.length >= 4 && buffer[0] === 0x50 && buffer[1] === 0x4b &&
+    ((buffer[2] === 0x03 && buffer[3] === 0x04) || (buffer[2] === 0x05 && buffer[3] === 0x06));
+}
+
+/** STEP-Physical-File: "ISO-10303-21;" am Anfang (BOM/Leerzeilen/Kommentare davor toleriert). */
+export function isStep(buffer: Uint8Array): boolean {
+  return Buffer.from(buffer.subarray(0, 1024)).toString('latin1').includes('ISO-10303-21');
+}
+
+/**
+ * IFC-Inhalt auspacken: ZIP → enthaltene .ifc/.ifcXML (bei mehreren über entry
+ * gewählt, Pfad oder Dateiname), ifcXML → STEP.
+ */
+export async function unpackIfcInput(buffer: Buffer, entry = '', fileName?: string): Promise<IfcInput> {
+  let format: IfcInputFormat = 'ifc';
+  let chosen: string | undefined;
+
+  if (isZip(buffer)) {
+    const zip = await JSZip.loadAsync(buffer);
+    const files = Object.values(zip.files)
+      .filter(f => !f.dir && IFC_ENTRY.test(f.name) && !f.name.startsWith('__MACOSX/'));
+    const wanted = entry.trim().toLowerCase();
+    const matches = wanted
+      ? files.filter(f => f.name.toLowerCase() === wanted || path.posix.basename(f.name).toLowerCase() === wanted)
+      : files;
+    const names = files.map(f => f.name).join(', ') || '—';
+    if (!matches.length) {
+      throw new Error(wanted
+        ? `ZIP entry "${entry}" not found (available: ${names})`
+        : 'ZIP archive contains no .ifc or .ifcXML file');
+    }
+    if (matches.length > 1) {
+      throw new Error(`ZIP archive contains several IFC files, choose one with "ZIP Entry": ${names}`);
+    }
+    chosen = matches[0].name;
+    buffer = await matches[0].async('nodebuffer');
+    format = 'ifczip';
+  }
+
+  if (isIfcXml(buffer)) {
+    buffer = ifcXmlToStep(buffer, chosen ?? fileName);
+    if (format === 'ifc') format = 'ifcxml';
+  } else if (!isStep(buffer)) {
+    // web-ifc stürzt bei Fremddaten im wasm ab – vorher mit klarer Meldung abbrechen
+    throw new Error(`${chosen ?? fileName ?? 'Input'} is not an IFC file (no ISO-10303-21 header)`);
+  }
+  return { buffer, format, ...(chosen ? { entry: chosen } : {}) };
+}
+
+/** Binary lesen und als IFC (STEP) liefern – gemeinsamer Einstieg der IFC-Nodes. */
+export async function readIfcInput(
+  ctx: IExecuteFunctions,
+  itemIndex: number,
+  propertyName: string,
+  entry = '',
+): Promise<IfcInput> {
+  const buffer = await readBinaryBuffer(ctx, itemIndex, propertyName);
+  return unpackIfcInput(buffer, entry, inputBinary(ctx, itemIndex, propertyName)?.fileName);
+}
+
+export type BinaryContent = Buffer | string | ((filePath: string) => void | Promise<void>);
+
+/**
+ * Ausgabe über eine temporäre Datei an n8n übergeben; content ist der fertige
+ * Inhalt oder schreibt selbst in den übergebenen Pfad (z. B. XLSX.writeFile).
+ */
+export async function prepareBinaryOutput(
+  ctx: IExecuteFunctions,
+  content: BinaryContent,
+  fileName: string,
+  mimeType: string,
+): Promise<IBinaryData> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bimx-'));
+  // Dateiname stammt teils aus Node-Parametern – nie aus dem Temp-Verzeichnis heraus
+  const filePath = path.join(dir, path.basename(fileName) || 'output');
+  try {
+    if (typeof content === 'function') await content(filePath);
+    else await fs.promises.writeFile(filePath, content);
+    return await prepareBinaryFile(ctx, filePath, fileName, mimeType);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/** Vorhandene Datei als Stream übergeben (Datei bleibt liegen – Aufräumen beim Aufrufer). */
+export async function prepareBinaryFile(
+  ctx: IExecuteFunctions,
+  filePath: string,
+  fileName: string,
+  mimeType: string,
+): Promise<IBinaryData> {
+  const bin = await ctx.helpers.prepareBinaryData(fs.createReadStream(filePath), fileName, mimeType);
+  bin.fileName = fileName;
+  bin.mimeType = mimeType;
+  return bin;
+}
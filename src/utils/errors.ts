@@ -0,0 +1,44 @@
+// src/utils/errors.ts
+import type { IExecuteFunctions, INodeExecutionData } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import { inputBinary } from './binary';
+
+/* ------------------------------ Fehler je Item ------------------------------ */
+/*   Mit "Continue On Fail" wird ein fehlerhaftes Item (defekte IFC, fehlende  */
+/*   Binary-Property …) als Fehler-Item ausgegeben, der Rest läuft weiter.     */
+/*   Sonst bricht der Node wie bisher mit NodeOperationError (inkl. Item) ab.  */
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** Fehler-Item: { error, itemIndex, fileName } – fileName aus der Binary-Property, falls vorhanden. */
+export function errorItem(
+  ctx: IExecuteFunctions,
+  itemIndex: number,
+  error: unknown,
+  binaryProperty?: string,
+): INodeExecutionData {
+  const fileName = binaryProperty ? inputBinary(ctx, itemIndex, binaryProperty)?.fileName : undefined;
+  return {
+    json: { error: errorMessage(error), itemIndex, fileName: fileName ?? null },
+    pairedItem: { item: itemIndex },
+  };
+}
+
+/** Fehler an NodeOperationError mit Item-Bezug binden (bereits gebundene bleiben unverändert). */
+export function itemError(ctx: IExecuteFunctions, itemIndex: number, error: unknown): NodeOperationError {
+  if (error instanceof NodeOperationError) return error;
+  return new NodeOperationError(ctx.getNode(), error instanceof Error ? error : errorMessage(error), { itemIndex });
+}
+
+/** Im catch je Item: Fehler-Item bei continueOnFail(), sonst werfen. */
+export function failedItem(
+  ctx: IExecuteFunctions,
+  itemIndex: number,
+  error: unknown,
+  binaryProperty?: string,
+): INodeExecutionData {
+  if (ctx.continueOnFail()) return errorItem(ctx, itemIndex, error, binaryProperty);
+  throw itemError(ctx, itemIndex, error);
+}
@@ -0,0 +1,58 @@
+// test/din277.test.cjs – DIN-277-Zuordnung und -Auswertung (npm test baut vorher dist/)
+const test = require('node:test');
+const assert = require('node:assert');
+const path = require('path');
+
+const { buildDin277Report, classifyDin277, compileDin277Rules } = require(path.join(__dirname, '..', 'dist', 'lib', 'din277'));
+
+test('classifyDin277: erste passende Regel gewinnt, Text ohne Flags case-insensitive', () => {
+  const rules = compileDin277Rules([
+    { category: 'VF', source: 'name', pattern: '/^Flur/i' },
+    { category: 'NUF 2', source: 'property', property: 'Category', pattern: 'office' },
+    { category: 'TF', source: 'longName', pattern: 'Technik' },
+    { category: 'NUF 7', source: 'name', pattern: '[ungültig' },
+  ]);
+  assert.strictEqual(classifyDin277({ name: 'Flur 1', props: { 'Pset_SpaceCommon.Category': 'Office' } }, rules), 'VF');
+  assert.strictEqual(classifyDin277({ name: 'R 0.01', props: { 'Pset_SpaceCommon.Category': 'Office' } }, rules), 'NUF 2');
+  assert.strictEqual(classifyDin277({ name: 'R 0.02', longName: 'TECHNIKRAUM', props: {} }, rules), 'TF');
+  // ungültige Regex wird wörtlich verglichen
+  assert.strictEqual(classifyDin277({ name: 'Lager [ungültig', props: {} }, rules), 'NUF 7');
+  assert.strictEqual(classifyDin277({ name: 'R 0.03', props: {} }, rules), undefined);
+});
+
+test('buildDin277Report: NUF = Σ NUF 1–7, NRF = NUF + TF + VF, BGF = NRF + KGF', () => {
+  const rows = [
+    { Building: 'A', Storey: 'EG', DIN277: 'NUF 1', DIN277Area: 25 },
+    { Building: 'A', Storey: 'EG', DIN277: 'NUF 2', DIN277Area: 40 },
+    { Building: 'A', Storey: 'EG', DIN277: 'TF', DIN277Area: 6 },
+    { Building: 'A', Storey: 'EG', DIN277: 'VF', DIN277Area: 14 },
+    { Building: 'A', Storey: 'EG', DIN277: 'KGF', DIN277Area: 9 },
+    { Building: 'A', Storey: 'OG 1', DIN277: 'NUF 2', DIN277Area: 50 },
+    { Building: 'A', Storey: 'OG 1', DIN277: 'VF', DIN277Area: 10 },
+    { Building: 'A', Storey: 'OG 1', DIN277: undefined, DIN277Area: 3, Name: 'offen' },
+  ];
+  const { summary, unmapped } = buildDin277Report(rows);
+
+  assert.deepStrictEqual(summary.map(r => r.Storey), ['EG', 'OG 1', '(total)']);
+  const [eg, og, total] = summary;
+  assert.deepStrictEqual(
+    [eg['NUF 1'], eg['NUF 2'], eg.NUF, eg.TF, eg.VF, eg.NRF, eg.KGF, eg.BGF],
+    [25, 40, 65, 6, 14, 85, 9, 94],
+  );
+  assert.deepStrictEqual([og.NUF, og.NRF, og.BGF], [50, 60, 60]);
+  assert.deepStrictEqual([total['NUF 2'], total.NUF, total.NRF, total.KGF, total.BGF], [90, 115, 145, 9, 154]);
+  for (const r of summary) {
+    assert.strictEqual(r.NRF, r.NUF + r.TF + r.VF);
+    assert.strictEqual(r.BGF, r.NRF + r.KGF);
+  }
+  assert.deepStrictEqual(unmapped.map(r => r.Name), ['offen']);
+});
+
+test('buildDin277Report findet umbenannte Spalten und Einheiten-Suffixe', () => {
+  const rows = [
+    { Haus: 'B', Ebene: 'UG', Nutzung: 'TF', 'DIN277Area [m²]': 12 },
+    { Haus: 'B', Ebene: 'UG', Nutzung: 'NUF 4', 'DIN277Area [m²]': 30 },
+  ];
+  const { summary } = buildDin277Report(rows, { category: 'Nutzung', building: 'Haus', storey: 'Ebene' });
+  assert.deepStrictEqual(summary.map(r => [r.Building, r.Storey, r.NRF]), [['B', 'UG', 42], ['B', '(total)', 42]]);
+});
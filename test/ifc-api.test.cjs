@@ -0,0 +1,51 @@
+// test/ifc-api.test.cjs – läuft gegen den Build (npm test baut vorher dist/)
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+
+const DIST = path.join(__dirname, '..', 'dist');
+const { getIfcApi, openModel } = require(path.join(DIST, 'lib', 'ifc-api'));
+
+const ifc = (name) => Buffer.from([
+  'ISO-10303-21;',
+  'HEADER;',
+  "FILE_DESCRIPTION(('ViewDefinition [CoordinationView]'),'2;1');",
+  `FILE_NAME('${name}.ifc','',(''),(''),'','','');`,
+  "FILE_SCHEMA(('IFC4'));",
+  'ENDSEC;',
+  'DATA;',
+  `#1=IFCPROJECT('0YvctVUKr0kugbFTf53O9L',$,'${name}',$,$,$,$,$,$);`,
+  'ENDSEC;',
+  'END-ISO-10303-21;',
+].join('\n'));
+
+test('dist/wasm contains the wasm the Node build of web-ifc loads', () => {
+  assert.ok(fs.existsSync(path.join(DIST, 'wasm', 'web-ifc-node.wasm')));
+});
+
+test('getIfcApi initialises web-ifc from dist/wasm', async () => {
+  const api = await getIfcApi();
+  assert.strictEqual(api.wasmPath, path.join(DIST, 'wasm') + path.sep);
+  assert.ok(api.wasmModule);
+});
+
+test('openModel keeps at most one model open and queues other models', async () => {
+  const a = await openModel(ifc('A'));
+  let bOpened = false;
+  const pending = openModel(ifc('B')).then((h) => { bOpened = true; return h; });
+
+  await new Promise((r) => setTimeout(r, 50));
+  assert.strictEqual(bOpened, false, 'B must wait until A is released');
+
+  // dasselbe Modell wird nicht blockiert
+  const a2 = await openModel(ifc('A'));
+  assert.strictEqual(a2.modelID, a.modelID);
+  a2.release();
+  a.release();
+
+  const b = await pending;
+  assert.strictEqual(a.api.IsModelOpen(a.modelID), false);
+  assert.ok(b.api.IsModelOpen(b.modelID));
+  b.release();
+});
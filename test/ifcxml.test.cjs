@@ -0,0 +1,36 @@
+// test/ifcxml.test.cjs – ifcXML → STEP gegen feste Fixtures (npm test baut vorher dist/)
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const path = require('path');
+
+const { ifcXmlToStep, isIfcXml } = require(path.join(__dirname, '..', 'dist', 'lib', 'ifcxml'));
+
+const fixture = (name) => fs.readFileSync(path.join(__dirname, 'fixtures', name));
+
+for (const [name, schema] of [['space', 'IFC4'], ['ifc2x3', 'IFC2X3']]) {
+  test(`ifcXmlToStep schreibt ${name}.ifcxml (${schema}) als festes STEP`, () => {
+    const xml = fixture(`${name}.ifcxml`);
+    assert.ok(isIfcXml(xml));
+    const step = ifcXmlToStep(xml, `${name}.ifcxml`).toString('utf8');
+    assert.strictEqual(step, fixture(`${name}.expected.ifc`).toString('utf8'));
+  });
+}
+
+test('isIfcXml prüft Wurzelelement und Namensraum', () => {
+  const xml = (s) => Buffer.from(s, 'utf8');
+  assert.ok(isIfcXml(xml('\uFEFF<?xml version="1.0"?>\n<!-- export -->\n<ifc:ifcXML xmlns:ifc="http://standards.buildingsmart.org/IFC/RELEASE/IFC4x3/ADD2"/>')));
+  assert.ok(isIfcXml(xml('<ifcXML xmlns="http://www.buildingsmart-tech.org/ifcXML/IFC4/Add2"></ifcXML>')));
+  // erwähnt IFC4/ifcXML nur im Inhalt oder mit fremdem Namensraum → kein ifcXML
+  assert.ok(!isIfcXml(xml('<?xml version="1.0"?><report><schema>IFC4</schema><note>ifcXML export</note></report>')));
+  assert.ok(!isIfcXml(xml('<ifcXML xmlns="http://example.org/other"/>')));
+  assert.ok(!isIfcXml(xml('<ex:iso_10303_28 xmlns:ex="http://example.org/ex"/>')));
+  assert.ok(!isIfcXml(fixture('space.expected.ifc')));
+});
+
+test('ifcXmlToStep bricht bei flach geschriebener Liste von Listen ohne feste Länge ab', () => {
+  assert.throws(
+    () => ifcXmlToStep(fixture('flat-nested-list.ifcxml'), 'flat-nested-list.ifcxml'),
+    /IFCINDEXEDPOLYGONALFACEWITHVOIDS\.InnerCoordIndices/,
+  );
+});
@@ -0,0 +1,59 @@
+// test/profiles.test.cjs – Profilflächen gegen geschlossene Formeln (npm test baut vorher dist/)
+const test = require('node:test');
+const assert = require('node:assert');
+const path = require('path');
+
+const DIST = path.join(__dirname, '..', 'dist');
+const { openModel, clearModelCache } = require(path.join(DIST, 'lib', 'ifc-api'));
+const { areaOfProfile } = require(path.join(DIST, 'lib', 'profile-math'));
+
+const step = (lines) => Buffer.from([
+  'ISO-10303-21;',
+  'HEADER;',
+  "FILE_DESCRIPTION((''),'2;1');",
+  "FILE_NAME('profiles.ifc','',(''),(''),'','','');",
+  "FILE_SCHEMA(('IFC4'));",
+  'ENDSEC;',
+  'DATA;',
+  ...lines,
+  'ENDSEC;',
+  'END-ISO-10303-21;',
+].join('\n'));
+
+const PROFILES = [
+  '#1=IFCCIRCLEPROFILEDEF(.AREA.,$,$,2.);',
+  '#2=IFCCIRCLEHOLLOWPROFILEDEF(.AREA.,$,$,2.,0.5);',
+  '#3=IFCROUNDEDRECTANGLEPROFILEDEF(.AREA.,$,$,4.,2.,0.5);',
+  // 10 × 10 mit kreisförmiger Aussparung r = 1
+  '#10=IFCCARTESIANPOINT((0.,0.));',
+  '#11=IFCCARTESIANPOINT((10.,0.));',
+  '#12=IFCCARTESIANPOINT((10.,10.));',
+  '#13=IFCCARTESIANPOINT((0.,10.));',
+  '#14=IFCPOLYLINE((#10,#11,#12,#13,#10));',
+  '#15=IFCCARTESIANPOINT((5.,5.));',
+  '#16=IFCAXIS2PLACEMENT2D(#15,$);',
+  '#17=IFCCIRCLE(#16,1.);',
+  '#18=IFCARBITRARYPROFILEDEFWITHVOIDS(.AREA.,$,#14,(#17));',
+  // Halbkreis r = 1 als IfcIndexedPolyCurve (Bogen + Sehne)
+  '#20=IFCCARTESIANPOINTLIST2D(((1.,0.),(0.,1.),(-1.,0.)));',
+  '#21=IFCINDEXEDPOLYCURVE(#20,(IFCARCINDEX((1,2,3)),IFCLINEINDEX((3,1))),.F.);',
+  '#22=IFCARBITRARYCLOSEDPROFILEDEF(.AREA.,$,#21);',
+];
+
+const close = (actual, expected) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} ≠ ${expected}`);
+
+test('areaOfProfile: parametrische und freie Profile exakt (Bögen analytisch)', async () => {
+  const h = await openModel(step(PROFILES));
+  try {
+    const area = (id) => areaOfProfile(h.api, h.modelID, id);
+    close(area(1), 4 * Math.PI);
+    close(area(2), Math.PI * (4 - 2.25));
+    close(area(3), 8 - (4 - Math.PI) * 0.25);
+    close(area(18), 100 - Math.PI);
+    close(area(22), Math.PI / 2);
+  } finally {
+    h.release();
+  }
+});
+
+test.after(() => clearModelCache());
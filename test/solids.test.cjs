@@ -0,0 +1,122 @@
+// test/solids.test.cjs – verjüngte, geclippte und BRep-Raumkörper (npm test baut vorher dist/)
+const test = require('node:test');
+const assert = require('node:assert');
+const path = require('path');
+
+const DIST = path.join(__dirname, '..', 'dist');
+const { clearModelCache } = require(path.join(DIST, 'lib', 'ifc-api'));
+const { runQtoOnIFC } = require(path.join(DIST, 'lib', 'compute'));
+
+const step = (lines) => Buffer.from([
+  'ISO-10303-21;',
+  'HEADER;',
+  "FILE_DESCRIPTION((''),'2;1');",
+  "FILE_NAME('solids.ifc','',(''),(''),'','','');",
+  "FILE_SCHEMA(('IFC4'));",
+  'ENDSEC;',
+  'DATA;',
+  "#1=IFCPROJECT('0YvctVUKr0kugbFTf53O9L',$,'Proj',$,$,$,$,(#5),#2);",
+  '#2=IFCUNITASSIGNMENT((#3));',
+  '#3=IFCSIUNIT(*,.LENGTHUNIT.,$,.METRE.);',
+  '#4=IFCAXIS2PLACEMENT3D(#6,$,$);',
+  "#5=IFCGEOMETRICREPRESENTATIONCONTEXT($,'Model',3,1.E-05,#4,$);",
+  '#6=IFCCARTESIANPOINT((0.,0.,0.));',
+  '#7=IFCLOCALPLACEMENT($,#4);',
+  '#8=IFCDIRECTION((0.,0.,1.));',
+  ...lines,
+  'ENDSEC;',
+  'END-ISO-10303-21;',
+].join('\n'));
+
+// Raum mit genau einem Body-Item
+const space = (id, name, item) => [
+  `#${id}=IFCSPACE('${id}YvctVUKr0kugbFTf53O9L',$,'${name}',$,$,#7,#${id + 1},$,.ELEMENT.,.INTERNAL.,$);`,
+  `#${id + 1}=IFCPRODUCTDEFINITIONSHAPE($,$,(#${id + 2}));`,
+  `#${id + 2}=IFCSHAPEREPRESENTATION(#5,'Body','SweptSolid',(#${item}));`,
+];
+
+// Quader/Pultdach als IfcFacetedBrep: Höhe h0 bei x = 0, h1 bei x = 4 (Grundfläche 4 × 5)
+const brep = (id, h0, h1) => {
+  const pts = [[0, 0, 0], [4, 0, 0], [4, 5, 0], [0, 5, 0], [0, 0, h0], [4, 0, h1], [4, 5, h1], [0, 5, h0]];
+  const faces = [[0, 3, 2, 1], [4, 5, 6, 7], [0, 1, 5, 4], [1, 2, 6, 5], [2, 3, 7, 6], [3, 0, 4, 7]];
+  const lines = pts.map((p, i) => `#${id + i}=IFCCARTESIANPOINT((${p.map(v => v.toFixed(1)).join(',')}));`);
+  faces.forEach((f, i) => {
+    const base = id + 10 + i * 3;
+    lines.push(
+      `#${base}=IFCPOLYLOOP((${f.map(v => `#${id + v}`).join(',')}));`,
+      `#${base + 1}=IFCFACEOUTERBOUND(#${base},.T.);`,
+      `#${base + 2}=IFCFACE((#${base + 1}));`,
+    );
+  });
+  lines.push(`#${id + 30}=IFCCLOSEDSHELL((${faces.map((_, i) => `#${id + 12 + i * 3}`).join(',')}));`);
+  lines.push(`#${id + 31}=IFCFACETEDBREP(#${id + 30});`);
+  return lines;
+};
+
+const MODEL = step([
+  // verjüngt: 4 × 4 → 2 × 2 über 3 m (Pyramidenstumpf, V = h/3 · (A1 + A2 + √(A1·A2)) = 28)
+  '#20=IFCRECTANGLEPROFILEDEF(.AREA.,$,$,4.,4.);',
+  '#21=IFCRECTANGLEPROFILEDEF(.AREA.,$,$,2.,2.);',
+  '#22=IFCEXTRUDEDAREASOLIDTAPERED(#20,#4,#8,3.,#21);',
+  ...space(100, 'Tapered', 22),
+  // 4 × 5 × 3 m, oben an der Ebene z = 2.5 − x/4 abgeschnitten (Pultdach 3 m → 2 m) → V = 50
+  '#30=IFCRECTANGLEPROFILEDEF(.AREA.,$,$,4.,5.);',
+  '#31=IFCEXTRUDEDAREASOLID(#30,#4,#8,3.);',
+  '#32=IFCCARTESIANPOINT((0.,0.,2.5));',
+  '#33=IFCDIRECTION((1.,0.,4.));',
+  '#34=IFCAXIS2PLACEMENT3D(#32,#33,$);',
+  '#35=IFCPLANE(#34);',
+  '#36=IFCHALFSPACESOLID(#35,.F.);',
+  '#37=IFCBOOLEANCLIPPINGRESULT(.DIFFERENCE.,#31,#36);',
+  ...space(200, 'Clipped', 37),
+  ...brep(300, 2.5, 2.5),
+  ...space(400, 'BrepBox', 331),
+  ...brep(500, 2.5, 3.5),
+  ...space(600, 'BrepShed', 531),
+]);
+
+const close = (actual, expected, what) => assert.ok(Math.abs(actual - expected) < 1e-6, `${what}: ${actual} ≠ ${expected}`);
+
+test('Raumkörper: Volumen und Fläche verjüngter, geclippter und BRep-Körper', async () => {
+  const rows = await runQtoOnIFC(MODEL, {});
+  const by = Object.fromEntries(rows.map(r => [r.Name, r]));
+
+  // Simpson ist für linear interpolierte Profile exakt
+  close(by.Tapered.Volume, 28, 'Tapered.Volume');
+  close(by.Tapered.Area, 16, 'Tapered.Area');
+  assert.strictEqual(by.Tapered.GeometryApproximated, false);
+
+  close(by.Clipped.Volume, 50, 'Clipped.Volume');
+  close(by.Clipped.Area, 20, 'Clipped.Area');
+  assert.strictEqual(by.Clipped.GeometryApproximated, false);
+
+  close(by.BrepBox.Volume, 50, 'BrepBox.Volume');
+  close(by.BrepBox.Area, 20, 'BrepBox.Area');
+  assert.strictEqual(by.BrepBox.GeometryApproximated, false);
+
+  // Pultdach 2.5 m → 3.5 m: Volumen aus der geschlossenen Schale, kein Prisma → Näherung markiert
+  close(by.BrepShed.Volume, 60, 'BrepShed.Volume');
+  close(by.BrepShed.Area, 20, 'BrepShed.Area');
+  assert.strictEqual(by.BrepShed.GeometryApproximated, true);
+});
+
+test('Ausbauflächen: Wände und Decken in wahrer Größe, auch geneigt', async () => {
+  const rows = await runQtoOnIFC(MODEL, { surfaces: true });
+  const by = Object.fromEntries(rows.map(r => [r.Name, r]));
+
+  // geneigte Seiten des Stumpfs: 4 Trapeze (4 + 2) / 2 × √(3² + 1²)
+  close(by.Tapered.GrossWallArea, 4 * 3 * Math.sqrt(10), 'Tapered.GrossWallArea');
+  close(by.Tapered.CeilingArea, 4, 'Tapered.CeilingArea');
+
+  // Pultdach: Dachfläche 5 × √(4² + 1²), Wände 5 × 3 + 5 × 2 + 2 × 4 × 2.5
+  close(by.Clipped.CeilingArea, 5 * Math.sqrt(17), 'Clipped.CeilingArea');
+  close(by.Clipped.GrossWallArea, 45, 'Clipped.GrossWallArea');
+  close(by.BrepShed.CeilingArea, 5 * Math.sqrt(17), 'BrepShed.CeilingArea');
+  close(by.BrepShed.GrossWallArea, 54, 'BrepShed.GrossWallArea');
+  close(by.BrepShed.Perimeter, 18, 'BrepShed.Perimeter');
+
+  close(by.BrepBox.CeilingArea, 20, 'BrepBox.CeilingArea');
+  close(by.BrepBox.GrossWallArea, 45, 'BrepBox.GrossWallArea');
+});
+
+test.after(() => clearModelCache());
@@ -0,0 +1,50 @@
+// test/summary.test.cjs – gruppierte Summen über QTO-Zeilen (npm test baut vorher dist/)
+const test = require('node:test');
+const assert = require('node:assert');
+const path = require('path');
+
+const { buildSummary, summarizeRows } = require(path.join(__dirname, '..', 'dist', 'lib', 'summary'));
+
+const rows = [
+  { Storey: 'EG', 'Pset_SpaceCommon.Category': 'Office', Area: 20, Volume: 50, Name: '0.01' },
+  { Storey: 'EG', 'Pset_SpaceCommon.Category': 'Office', Area: 10.5, Volume: 26.25, Name: '0.02' },
+  { Storey: 'EG', 'Pset_SpaceCommon.Category': 'Corridor', Area: 8, Volume: 20, Name: '0.03' },
+  { Storey: 'OG 1', 'Pset_SpaceCommon.Category': 'Office', Area: 30, Volume: 75, Name: '1.01' },
+  { Storey: null, Area: 4, Volume: 10, Name: 'X' },
+];
+
+test('summarizeRows summiert je Gruppe, leere Schlüssel als (none)', () => {
+  assert.deepStrictEqual(summarizeRows(rows, 'Storey'), [
+    { Storey: '(none)', Count: 1, 'Area (sum)': 4, 'Volume (sum)': 10 },
+    { Storey: 'EG', Count: 3, 'Area (sum)': 38.5, 'Volume (sum)': 96.25 },
+    { Storey: 'OG 1', Count: 1, 'Area (sum)': 30, 'Volume (sum)': 75 },
+  ]);
+});
+
+test('summarizeRows kombiniert Schlüssel und löst Spalten über das Suffix auf', () => {
+  const out = summarizeRows(rows, 'Storey + Category', ['sum', 'avg', 'min', 'max', 'count'], ['Area']);
+  const eg = out.find(r => r.Storey === 'EG' && r['Pset_SpaceCommon.Category'] === 'Office');
+  assert.deepStrictEqual(eg, {
+    Storey: 'EG',
+    'Pset_SpaceCommon.Category': 'Office',
+    Count: 2,
+    'Area (sum)': 30.5,
+    'Area (avg)': 15.25,
+    'Area (min)': 10.5,
+    'Area (max)': 20,
+    'Area (count)': 2,
+  });
+  assert.strictEqual(out.length, 4);
+  // Gesamtsumme bleibt über alle Gruppen erhalten
+  assert.strictEqual(out.reduce((s, r) => s + r['Area (sum)'], 0), 72.5);
+});
+
+test('buildSummary liefert je Gruppierung eine Tabelle', () => {
+  const s = buildSummary(rows, { groupBy: ['Storey', ' Category '] });
+  assert.deepStrictEqual(Object.keys(s), ['Storey', 'Category']);
+  assert.deepStrictEqual(s.Category.map(r => [r['Pset_SpaceCommon.Category'], r['Area (sum)']]), [
+    ['(none)', 4],
+    ['Corridor', 8],
+    ['Office', 60.5],
+  ]);
+});
@@ -0,0 +1,63 @@
+// test/units.test.cjs – Einheitenfaktoren auf SI (npm test baut vorher dist/)
+const test = require('node:test');
+const assert = require('node:assert');
+const path = require('path');
+
+const DIST = path.join(__dirname, '..', 'dist');
+const { openModel, clearModelCache } = require(path.join(DIST, 'lib', 'ifc-api'));
+const { namedUnitFactor } = require(path.join(DIST, 'lib', 'units'));
+
+const step = (lines) => Buffer.from([
+  'ISO-10303-21;',
+  'HEADER;',
+  "FILE_DESCRIPTION((''),'2;1');",
+  "FILE_NAME('units.ifc','',(''),(''),'','','');",
+  "FILE_SCHEMA(('IFC4'));",
+  'ENDSEC;',
+  'DATA;',
+  ...lines,
+  'ENDSEC;',
+  'END-ISO-10303-21;',
+].join('\n'));
+
+const UNITS = [
+  '#1=IFCSIUNIT(*,.AREAUNIT.,.MILLI.,.SQUARE_METRE.);',
+  '#2=IFCSIUNIT(*,.VOLUMEUNIT.,.CENTI.,.CUBIC_METRE.);',
+  '#3=IFCSIUNIT(*,.LENGTHUNIT.,$,.METRE.);',
+  '#4=IFCDIMENSIONALEXPONENTS(1,0,0,0,0,0,0);',
+  '#5=IFCMEASUREWITHUNIT(IFCLENGTHMEASURE(0.3048),#3);',
+  "#6=IFCCONVERSIONBASEDUNIT(#4,.LENGTHUNIT.,'FOOT',#5);",
+  '#7=IFCDIMENSIONALEXPONENTS(2,0,0,0,0,0,0);',
+  '#8=IFCMEASUREWITHUNIT(IFCAREAMEASURE(144.),#9);',
+  "#9=IFCCONVERSIONBASEDUNIT(#10,.AREAUNIT.,'SQUARE INCH',#11);",
+  '#10=IFCDIMENSIONALEXPONENTS(2,0,0,0,0,0,0);',
+  '#11=IFCMEASUREWITHUNIT(IFCAREAMEASURE(0.00064516),#12);',
+  '#12=IFCSIUNIT(*,.AREAUNIT.,$,.SQUARE_METRE.);',
+  "#13=IFCCONVERSIONBASEDUNIT(#7,.AREAUNIT.,'SQUARE FOOT',#8);",
+  '#14=IFCSIUNIT(*,.MASSUNIT.,.KILO.,.GRAM.);',
+  '#15=IFCSIUNIT(*,.MASSUNIT.,$,.GRAM.);',
+];
+
+test('namedUnitFactor rechnet Präfix, Potenz und Umrechnungseinheiten auf SI', async () => {
+  const h = await openModel(step(UNITS));
+  try {
+    const f = (id) => namedUnitFactor(h.api, h.modelID, id);
+    // Präfix vor dem Potenzieren: (1e-3 m)² bzw. (1e-2 m)³
+    assert.deepStrictEqual(f(1), { kind: 'area', factor: 1e-6 });
+    assert.strictEqual(f(2).kind, 'volume');
+    assert.ok(Math.abs(f(2).factor - 1e-6) < 1e-18);
+    assert.deepStrictEqual(f(3), { kind: 'length', factor: 1 });
+    assert.deepStrictEqual(f(6), { kind: 'length', factor: 0.3048 });
+    // verschachtelt: 1 ft² = 144 in², 1 in² = 0.00064516 m²
+    assert.strictEqual(f(13).kind, 'area');
+    assert.ok(Math.abs(f(13).factor - 0.09290304) < 1e-12);
+    // SI-Basis der Masse ist kg
+    assert.deepStrictEqual(f(14), { kind: 'mass', factor: 1 });
+    assert.deepStrictEqual(f(15), { kind: 'mass', factor: 1e-3 });
+    assert.strictEqual(f(undefined), undefined);
+  } finally {
+    h.release();
+  }
+});
+
+test.after(() => clearModelCache());